@@ -11,21 +11,38 @@ import {
   Trash2,
   Calendar,
   Printer,
-  ChevronRight
+  ChevronRight,
+  Search
 } from 'lucide-react';
-import { Node } from './types';
+import { Node, ReviewItem } from './types';
 import { useTree, TreeContext, useTreeContext } from './hooks/useTree';
 import { RecursiveTreeView } from './components/Tree';
 import { CalendarView } from './components/CalendarView';
 import { PrintPlanView } from './components/PrintPlanModal';
 import { ReviewDeck } from './components/ReviewDeck';
 import { Login } from './components/Login';
+import { SettingsView } from './components/SettingsView';
+import { UndoToast } from './components/UndoToast';
+import { TrashView } from './components/TrashView';
+import { CommandPalette } from './components/CommandPalette';
+import { LeechList } from './components/LeechList';
+import { DailyProgress } from './components/DailyProgress';
+import { LinkNavigationContext } from './components/RichText';
+import { applyDailyLimits } from './utils/presets';
+import { getEffectiveDue, getPrerequisiteStatuses } from './utils/prerequisites';
+import { getBuriedKeys } from './utils/burying';
+import { getReviewItems } from './utils/cards';
+import { getTrashRoots, getTrashedIds } from './utils/trash';
+import { canMoveNode, getSettings, getSubjectId } from './utils/treeUtils';
 
 // ----------------------
 // MAIN COMPONENT
 // ----------------------
 
-type ViewMode = 'dashboard' | 'review' | 'tree' | 'calendar' | 'subjects' | 'settings' | 'print';
+// How far ahead a card in its learning steps may be shown early
+const LEARN_AHEAD_MS = 20 * 60 * 1000;
+
+type ViewMode = 'dashboard' | 'review' | 'tree' | 'calendar' | 'subjects' | 'settings' | 'print' | 'trash';
 
 export default function App() {
   const treeLogic = useTree();
@@ -38,8 +55,23 @@ export default function App() {
   const [isAddingSubject, setIsAddingSubject] = useState(false);
   const [newSubjectName, setNewSubjectName] = useState("");
 
+  // Quick-jump palette (Ctrl/Cmd+K) and the node the tree should select once it opens
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [focusId, setFocusId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsPaletteOpen(open => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   useEffect(() => {
-    if (activeSubjectId && !nodes[activeSubjectId]) {
+    if (activeSubjectId && (!nodes[activeSubjectId] || nodes[activeSubjectId].trashedAt)) {
       setActiveSubjectId(null);
       if (activeView === 'tree') {
           setActiveView('dashboard');
@@ -48,14 +80,27 @@ export default function App() {
   }, [nodes, activeSubjectId, activeView]);
 
   const rootSubjects = (nodes['root']?.children || []).map(id => nodes[id]).filter(Boolean);
+  const trashCount = useMemo(() => getTrashRoots(nodes).length, [nodes]);
 
-  const reviewQueue = useMemo(() => {
+  const { reviewQueue, buriedItems } = useMemo(() => {
     const now = Date.now();
-    return (Object.values(nodes) as Node[]).filter(node => 
-      node.parentId !== null && 
-      node.fsrs.state !== 'suspended' &&
-      node.fsrs.due <= now
-    ).sort((a, b) => a.fsrs.due - b.fsrs.due);
+    // Cloze nodes contribute one entry per cloze
+    const items = getReviewItems(nodes);
+    // Siblings of a card reviewed today wait for tomorrow
+    const buriedKeys = getBuriedKeys(items, getSettings(nodes));
+    // Cards waiting on a prerequisite stay out; a lapse on the prerequisite brings them forward
+    const prerequisites = getPrerequisiteStatuses(nodes, items);
+    const dueOf = (item: ReviewItem) => getEffectiveDue(item, prerequisites.get(item.key) ?? null);
+    const due = items.filter(item => {
+      if (prerequisites.get(item.key)?.isHeld) return false;
+      // Cards in (re)learning steps come back within the same session
+      const isStepping = item.fsrs.state === 'learning' || item.fsrs.state === 'relearning';
+      return dueOf(item) <= (isStepping ? now + LEARN_AHEAD_MS : now);
+    }).sort((a, b) => dueOf(a) - dueOf(b));
+    return {
+      reviewQueue: applyDailyLimits(due.filter(item => !buriedKeys.has(item.key)), nodes),
+      buriedItems: due.filter(item => buriedKeys.has(item.key)),
+    };
   }, [nodes]);
 
   const handleCreateSubject = () => {
@@ -66,6 +111,16 @@ export default function App() {
     }
   };
 
+  const handleJump = (nodeId: string) => {
+    const subjectId = getSubjectId(nodes, nodeId);
+    setIsPaletteOpen(false);
+    if (!subjectId) return;
+    treeLogic.revealNode(nodeId);
+    setActiveSubjectId(subjectId);
+    setActiveView('tree');
+    setFocusId(nodeId);
+  };
+
   const handleMobileSubjectChange = (id: string) => {
       setActiveSubjectId(id);
       setActiveView('tree');
@@ -73,6 +128,7 @@ export default function App() {
 
   return (
     <TreeContext.Provider value={treeLogic}>
+    <LinkNavigationContext.Provider value={handleJump}>
       {/* Root Container: Flex Column on Mobile, Row on Desktop. No scrolling on body. */}
       <div className="flex h-screen w-screen bg-gray-50 text-slate-800 font-sans overflow-hidden">
         
@@ -86,6 +142,14 @@ export default function App() {
           </div>
 
           <nav className="flex-1 px-4 space-y-1 overflow-y-auto custom-scrollbar">
+            <button
+              onClick={() => setIsPaletteOpen(true)}
+              className="w-full flex items-center gap-3 px-3 py-2 mb-3 text-sm text-gray-400 bg-gray-50 border border-gray-200 rounded-lg hover:border-indigo-300 hover:text-indigo-600 transition-colors whitespace-nowrap"
+            >
+              <Search size={16} />
+              <span className="flex-1 text-left">搜索节点...</span>
+              <kbd className="text-[10px] font-mono px-1.5 py-0.5 rounded border border-gray-200 bg-white">Ctrl K</kbd>
+            </button>
             <SidebarItem 
               icon={<LayoutDashboard size={18} />} 
               label="首页" 
@@ -112,6 +176,19 @@ export default function App() {
               isActive={activeView === 'print'}
               onClick={() => setActiveView('print')}
             />
+            <SidebarItem 
+              icon={<Settings size={18} />} 
+              label="设置" 
+              isActive={activeView === 'settings'}
+              onClick={() => setActiveView('settings')}
+            />
+            <SidebarItem 
+              icon={<Trash2 size={18} />} 
+              label="回收站" 
+              badge={trashCount > 0 ? trashCount : undefined}
+              isActive={activeView === 'trash'}
+              onClick={() => setActiveView('trash')}
+            />
 
             <div className="mt-8 mb-2 px-2 text-xs font-bold text-gray-400 uppercase tracking-wider">
               科目列表
@@ -129,6 +206,11 @@ export default function App() {
                     setActiveSubjectId(subject.id);
                   }}
                   onDelete={() => deleteNode(subject.id)}
+                  acceptsDrop={!!treeLogic.draggingId && canMoveNode(nodes, treeLogic.draggingId, subject.id, 'inside')}
+                  onNodeDrop={(sourceId: string) => {
+                    treeLogic.setDraggingId(null);
+                    treeLogic.moveNode(sourceId, subject.id, 'inside');
+                  }}
                 />
               ))}
               
@@ -182,8 +264,11 @@ export default function App() {
                     </div>
                 </div>
 
-                {/* Right Side: Login Component - Only visible on Mobile now */}
-                <div className="md:hidden">
+                {/* Right Side: Search + Login Component - Only visible on Mobile now */}
+                <div className="md:hidden flex items-center gap-1">
+                    <button onClick={() => setIsPaletteOpen(true)} className="p-2 text-gray-400 hover:text-indigo-600 rounded-lg" title="搜索">
+                        <Search size={20} />
+                    </button>
                     <Login mode="mobile" />
                 </div>
             </header>
@@ -198,12 +283,15 @@ export default function App() {
                     <RecursiveTreeView 
                         rootId={activeSubjectId} 
                         onSubjectChange={handleMobileSubjectChange}
+                        focusId={focusId}
+                        onFocused={() => setFocusId(null)}
                     />
                 )}
                 
                 {activeView === 'review' && (
                     <ReviewDeck 
                         queue={reviewQueue} 
+                        buried={buriedItems}
                         onExit={() => setActiveView('dashboard')}
                         onReviewComplete={treeLogic.reviewComplete}
                     />
@@ -221,7 +309,7 @@ export default function App() {
                 {activeView === 'dashboard' && (
                     <div className="h-full w-full overflow-y-auto overflow-x-hidden custom-scrollbar">
                         <Dashboard 
-                            totalNodes={Object.keys(nodes).length - 1} 
+                            totalNodes={Object.keys(nodes).length - 1 - getTrashedIds(nodes).size} 
                             reviewCount={reviewQueue.length} 
                             onReviewClick={() => setActiveView('review')}
                         />
@@ -232,25 +320,32 @@ export default function App() {
                     <div className="h-full w-full overflow-y-auto custom-scrollbar">
                         <MobileSubjectsList 
                             subjects={rootSubjects}
+                            trashCount={trashCount}
                             onSelect={(id) => {
                                 setActiveSubjectId(id);
                                 setActiveView('tree');
                             }}
+                            onOpenTrash={() => setActiveView('trash')}
                         />
                     </div>
                 )}
 
                 {activeView === 'settings' && (
-                    <div className="h-full flex items-center justify-center text-gray-400">
-                         <div className="text-center">
-                            <Settings size={48} className="mx-auto mb-4 opacity-20" />
-                            <p>设置功能暂未开发</p>
-                        </div>
-                    </div>
+                    <SettingsView />
+                )}
+
+                {activeView === 'trash' && (
+                    <TrashView />
                 )}
 
             </main>
 
+            <UndoToast />
+
+            {isPaletteOpen && (
+                <CommandPalette onClose={() => setIsPaletteOpen(false)} onJump={handleJump} />
+            )}
+
             {/* C. BOTTOM NAV (Mobile Only) */}
             {/* It is a flex item, not absolute/fixed, so it claims space legitimately */}
             <nav className="md:hidden flex-shrink-0 h-16 bg-white border-t border-gray-200 flex justify-around items-center z-30 pb-safe">
@@ -276,7 +371,7 @@ export default function App() {
                 <MobileNavItem 
                     icon={<BookOpen size={20} />} 
                     label="科目" 
-                    isActive={activeView === 'subjects' || activeView === 'tree'} 
+                    isActive={activeView === 'subjects' || activeView === 'tree' || activeView === 'trash'} 
                     onClick={() => setActiveView('subjects')} 
                 />
                 <MobileNavItem 
@@ -288,6 +383,7 @@ export default function App() {
             </nav>
         </div>
       </div>
+    </LinkNavigationContext.Provider>
     </TreeContext.Provider>
   );
 }
@@ -317,7 +413,7 @@ function MobileNavItem({ icon, label, isActive, onClick, badge }: any) {
     )
 }
 
-function MobileSubjectsList({ subjects, onSelect }: { subjects: Node[], onSelect: (id: string) => void }) {
+function MobileSubjectsList({ subjects, trashCount, onSelect, onOpenTrash }: { subjects: Node[], trashCount: number, onSelect: (id: string) => void, onOpenTrash: () => void }) {
     const { addNode } = useTreeContext();
     const [isAdding, setIsAdding] = useState(false);
     const [name, setName] = useState("");
@@ -387,16 +483,41 @@ function MobileSubjectsList({ subjects, onSelect }: { subjects: Node[], onSelect
                     添加新科目
                 </button>
             )}
+
+            <button
+                onClick={onOpenTrash}
+                className="mt-3 w-full py-3 text-gray-400 rounded-2xl text-sm font-bold flex items-center justify-center gap-2 hover:text-gray-600 active:scale-95 transition-all"
+            >
+                <Trash2 size={16} />
+                回收站{trashCount > 0 && ` (${trashCount})`}
+            </button>
         </div>
     )
 }
 
-function SidebarItem({ icon, label, badge, isActive, onClick, highlight, onDelete }: any) {
+// Subject entries double as drop targets for moving tree nodes across subjects
+function SidebarItem({ icon, label, badge, isActive, onClick, highlight, onDelete, acceptsDrop, onNodeDrop }: any) {
+  const [isDropTarget, setIsDropTarget] = useState(false);
+
   return (
     <div
       onClick={onClick}
+      onDragOver={acceptsDrop ? (e) => {
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+        setIsDropTarget(true);
+      } : undefined}
+      onDragLeave={() => setIsDropTarget(false)}
+      onDrop={acceptsDrop ? (e) => {
+        e.preventDefault();
+        setIsDropTarget(false);
+        const sourceId = e.dataTransfer.getData('text/plain');
+        if (sourceId) onNodeDrop(sourceId);
+      } : undefined}
       className={`group w-full flex items-center justify-between px-3 py-2.5 text-sm font-medium rounded-lg transition-colors duration-150 cursor-pointer mb-0.5 ${
-        isActive 
+        isDropTarget
+          ? 'bg-indigo-100 text-indigo-700 ring-2 ring-indigo-400'
+          : isActive 
           ? 'bg-indigo-50 text-indigo-700' 
           : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
       }`}
@@ -491,6 +612,9 @@ function Dashboard({ totalNodes, reviewCount, onReviewClick }: any) {
              <div className="text-xs font-bold text-gray-300 uppercase tracking-widest">MemoryFlow Pro</div>
           </div>
         </div>
+
+        <DailyProgress />
+        <LeechList />
       </div>
     </div>
   );
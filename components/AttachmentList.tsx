@@ -0,0 +1,71 @@
+import { ImageOff, Loader2, X } from 'lucide-react';
+import { Attachment } from '../types';
+import { useAttachmentUrl } from '../hooks/useAttachmentUrl';
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  onRemove?: (hash: string) => void;
+  size?: 'small' | 'large';
+}
+
+const AttachmentView = ({ attachment, onRemove, size }: { attachment: Attachment; onRemove?: (hash: string) => void; size: 'small' | 'large' }) => {
+  const url = useAttachmentUrl(attachment.hash);
+
+  let body;
+  if (!url) {
+    body = (
+      <div className={`flex items-center justify-center bg-gray-50 text-gray-300 rounded-lg ${size === 'small' ? 'w-16 h-16' : 'w-full h-24'}`} title={attachment.name}>
+        {attachment.kind === 'image' ? <ImageOff size={16} /> : <Loader2 size={16} className="animate-spin" />}
+      </div>
+    );
+  } else if (attachment.kind === 'image') {
+    body = (
+      <img
+        src={url}
+        alt={attachment.name}
+        title={attachment.name}
+        className={`rounded-lg border border-gray-100 object-cover ${size === 'small' ? 'w-16 h-16' : 'max-h-40 mx-auto'}`}
+        draggable={false}
+      />
+    );
+  } else {
+    body = (
+      <audio
+        src={url}
+        controls
+        title={attachment.name}
+        className={size === 'small' ? 'h-8 w-48' : 'w-full'}
+        onPointerDown={(e) => e.stopPropagation()}
+      />
+    );
+  }
+
+  return (
+    <div className="relative group/attachment">
+      {body}
+      {onRemove && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onRemove(attachment.hash);
+          }}
+          className="absolute -top-1.5 -right-1.5 p-0.5 bg-white border border-gray-200 rounded-full text-gray-400 hover:text-rose-500 shadow-sm opacity-0 group-hover/attachment:opacity-100 transition-opacity"
+          title="移除附件"
+        >
+          <X size={10} />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export function AttachmentList({ attachments, onRemove, size = 'small' }: AttachmentListProps) {
+  if (attachments.length === 0) return null;
+  return (
+    <div className={size === 'small' ? 'flex flex-wrap gap-2 items-center' : 'w-full space-y-2'}>
+      {attachments.map(attachment => (
+        <AttachmentView key={attachment.hash} attachment={attachment} onRemove={onRemove} size={size} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { useContext } from 'react';
+import { Link2 } from 'lucide-react';
+import { Node } from '../types';
+import { useTreeContext } from '../hooks/useTree';
+import { getPathTitles } from '../utils/treeUtils';
+import { renderCloze } from '../utils/cards';
+import { LinkNavigationContext, RichText } from './RichText';
+
+/** The nodes whose title or content links to this one with [[...]]. */
+export const Backlinks = ({ node }: { node: Node }) => {
+  const { nodes, backlinks } = useTreeContext();
+  const navigate = useContext(LinkNavigationContext);
+  const sources = (backlinks[node.id] ?? []).map(id => nodes[id]).filter(Boolean);
+
+  return (
+    <div>
+      <div className="flex items-center gap-1 text-[10px] font-bold text-gray-500 uppercase mb-1">
+        <Link2 size={12} />
+        反向链接 ({sources.length})
+      </div>
+      {sources.length === 0 ? (
+        <p className="text-[10px] text-gray-400">还没有节点链接到这里。在其他节点的标题或内容中输入 [[{renderCloze(node.title)}]] 即可建立链接。</p>
+      ) : (
+        <div className="space-y-1">
+          {sources.map(source => (
+            <button
+              key={source.id}
+              onClick={(e) => {
+                e.stopPropagation();
+                navigate?.(source.id);
+              }}
+              className="w-full text-left px-2 py-1 rounded-lg hover:bg-violet-50 transition-colors"
+            >
+              <div className="text-[10px] text-gray-400 truncate">{getPathTitles(nodes, source.parentId).join(' / ')}</div>
+              <div className="text-xs text-gray-700 truncate"><RichText text={renderCloze(source.title)} inline /></div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+import { useMemo, useState } from 'react';
+import { Pause, Play, RotateCcw, CalendarClock, Tag, FolderInput, Trash2, X } from 'lucide-react';
+import { useTreeContext } from '../hooks/useTree';
+import { getLearningDayKey, getLearningDayStart } from '../utils/learningDay';
+import { getOutline } from '../utils/treeUtils';
+
+interface BulkActionBarProps {
+  ids: string[];
+  onClear: () => void;
+}
+
+type Panel = 'date' | 'tag' | 'move' | null;
+
+const BUTTON_CLASS = 'flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-medium text-indigo-700 hover:bg-indigo-100 transition-colors';
+
+/** Actions over a multi-selection in the list or map view; each one is a single undo step. */
+export const BulkActionBar = ({ ids, onClear }: BulkActionBarProps) => {
+  const {
+    nodes, settings, suspendNodes, unsuspendNodes, resetNodes, rescheduleNodes, addTag, removeTag, moveNodes, deleteNodes
+  } = useTreeContext();
+  const [panel, setPanel] = useState<Panel>(null);
+  const [dateKey, setDateKey] = useState(() => getLearningDayKey(Date.now(), settings));
+  const [tagText, setTagText] = useState('');
+  const targets = useMemo(() => (panel === 'move' ? getOutline(nodes) : []), [panel, nodes]);
+
+  const togglePanel = (next: Panel) => setPanel(panel === next ? null : next);
+
+  return (
+    <div className="flex-shrink-0 border-b border-indigo-100 bg-indigo-50/80 px-4 py-2 z-10">
+      <div className="flex items-center gap-1 flex-wrap">
+        <span className="text-xs font-bold text-indigo-700 mr-2 whitespace-nowrap">已选 {ids.length} 项</span>
+        <button onClick={() => suspendNodes(ids)} className={BUTTON_CLASS} title="暂停复习（仅存储）">
+          <Pause size={14} /> <span className="hidden sm:inline">暂停</span>
+        </button>
+        <button onClick={() => unsuspendNodes(ids)} className={BUTTON_CLASS} title="恢复复习（加入计划）">
+          <Play size={14} /> <span className="hidden sm:inline">恢复</span>
+        </button>
+        <button
+          onClick={() => {
+            if (confirm(`重置 ${ids.length} 个节点的复习进度？复习记录会保留。`)) resetNodes(ids);
+          }}
+          className={BUTTON_CLASS}
+          title="重置为新卡片"
+        >
+          <RotateCcw size={14} /> <span className="hidden sm:inline">重置</span>
+        </button>
+        <button onClick={() => togglePanel('date')} className={BUTTON_CLASS} title="改期到指定日期">
+          <CalendarClock size={14} /> <span className="hidden sm:inline">改期</span>
+        </button>
+        <button onClick={() => togglePanel('tag')} className={BUTTON_CLASS} title="添加或移除标签">
+          <Tag size={14} /> <span className="hidden sm:inline">标签</span>
+        </button>
+        <button onClick={() => togglePanel('move')} className={BUTTON_CLASS} title="移动到其他父节点">
+          <FolderInput size={14} /> <span className="hidden sm:inline">移动</span>
+        </button>
+        <button
+          onClick={() => {
+            deleteNodes(ids);
+            onClear();
+          }}
+          className="flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-medium text-rose-600 hover:bg-rose-100 transition-colors"
+          title="移入回收站"
+        >
+          <Trash2 size={14} /> <span className="hidden sm:inline">删除</span>
+        </button>
+        <button onClick={onClear} className="ml-auto p-1 rounded-lg text-indigo-400 hover:bg-indigo-100" title="取消选择 (Esc)">
+          <X size={14} />
+        </button>
+      </div>
+
+      {panel === 'date' && (
+        <div className="flex items-center gap-2 mt-2">
+          <input
+            type="date"
+            value={dateKey}
+            onChange={(e) => setDateKey(e.target.value)}
+            className="border border-gray-300 rounded-lg px-2 py-1 text-xs outline-none focus:ring-2 focus:ring-indigo-500 bg-white"
+          />
+          <button
+            disabled={!dateKey}
+            onClick={() => {
+              rescheduleNodes(ids, getLearningDayStart(dateKey, settings));
+              setPanel(null);
+            }}
+            className="px-3 py-1 bg-indigo-600 text-white rounded-lg text-xs font-bold hover:bg-indigo-700 disabled:opacity-50"
+          >
+            改期
+          </button>
+        </div>
+      )}
+
+      {panel === 'tag' && (
+        <div className="flex items-center gap-2 mt-2">
+          <input
+            autoFocus
+            type="text"
+            value={tagText}
+            onChange={(e) => setTagText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && tagText.trim()) {
+                addTag(ids, tagText);
+                setTagText('');
+              }
+            }}
+            placeholder="标签名…"
+            className="w-40 border border-gray-300 rounded-lg px-2 py-1 text-xs outline-none focus:ring-2 focus:ring-indigo-500 bg-white"
+          />
+          <button
+            disabled={!tagText.trim()}
+            onClick={() => {
+              addTag(ids, tagText);
+              setTagText('');
+            }}
+            className="px-3 py-1 bg-indigo-600 text-white rounded-lg text-xs font-bold hover:bg-indigo-700 disabled:opacity-50"
+          >
+            添加
+          </button>
+          <button
+            disabled={!tagText.trim()}
+            onClick={() => {
+              removeTag(ids, tagText);
+              setTagText('');
+            }}
+            className="px-3 py-1 text-xs font-bold text-gray-600 bg-white border border-gray-200 rounded-lg hover:bg-gray-100 disabled:opacity-50"
+          >
+            移除
+          </button>
+        </div>
+      )}
+
+      {panel === 'move' && (
+        <select
+          autoFocus
+          defaultValue=""
+          onChange={(e) => {
+            if (!e.target.value) return;
+            moveNodes(ids, e.target.value);
+            setPanel(null);
+          }}
+          className="mt-2 w-full max-w-sm border border-gray-300 rounded-lg px-2 py-1 text-xs outline-none focus:ring-2 focus:ring-indigo-500 bg-white"
+        >
+          <option value="" disabled>选择新的父节点…</option>
+          {targets.map(target => (
+            <option key={target.id} value={target.id} disabled={ids.includes(target.id)}>
+              {'　'.repeat(target.depth)}{target.title}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+};
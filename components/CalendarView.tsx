@@ -1,11 +1,15 @@
 
 import React, { useMemo, useState } from 'react';
-import { format, isToday, isTomorrow, parseISO, compareAsc } from 'date-fns';
+import { format, parseISO, compareAsc } from 'date-fns';
 import { zhCN } from 'date-fns/locale';
 import { Calendar as CalendarIcon, Clock, Layers } from 'lucide-react';
 import { useTreeContext } from '../hooks/useTree';
 import { generateReviewSchedule } from '../utils/scheduler';
 import { ReviewType, CalendarEvent } from '../types';
+import { addDaysToKey, getLearningDayKey } from '../utils/learningDay';
+import { RichText } from './RichText';
+import { FilterScopeSelect } from './FilterScope';
+import { useSavedFilter } from '../hooks/useSavedFilter';
 
 const EventCard: React.FC<{ event: CalendarEvent }> = ({ event }) => {
   const isConfirmed = event.type === 'confirmed';
@@ -22,7 +26,7 @@ const EventCard: React.FC<{ event: CalendarEvent }> = ({ event }) => {
     >
       <div className="flex items-start justify-between gap-2">
         <span className={`font-medium truncate ${isConfirmed ? 'text-slate-800' : 'text-slate-600'}`}>
-          {event.title}
+          <RichText text={event.title} inline />
         </span>
         {isConfirmed ? (
            <span className="flex-shrink-0 w-2 h-2 rounded-full bg-indigo-500 mt-1.5" title="已确定复习" />
@@ -49,13 +53,16 @@ const EventCard: React.FC<{ event: CalendarEvent }> = ({ event }) => {
 };
 
 export function CalendarView() {
-  const { nodes } = useTreeContext();
+  const { nodes, settings } = useTreeContext();
+  const todayKey = getLearningDayKey(Date.now(), settings);
   const [range, setRange] = useState<number>(14); // Default 14 days
+  const [filterId, setFilterId] = useState<string | null>(null);
+  const include = useSavedFilter(filterId);
 
-  // Compute schedule only when nodes or range changes
+  // Compute schedule only when nodes, range or scope changes
   const scheduleMap = useMemo(() => {
-    return generateReviewSchedule(nodes, range);
-  }, [nodes, range]);
+    return generateReviewSchedule(nodes, range, include ?? undefined);
+  }, [nodes, range, include]);
 
   // Sort dates
   const sortedDates = useMemo(() => {
@@ -72,6 +79,7 @@ export function CalendarView() {
         </h2>
         
         <div className="flex items-center gap-1">
+          <FilterScopeSelect value={filterId} onChange={setFilterId} />
           {[7, 14, 30].map(days => (
             <button
               key={days}
@@ -103,8 +111,8 @@ export function CalendarView() {
               const dateObj = parseISO(dateStr);
               
               let label = format(dateObj, 'M月d日 EEEE', { locale: zhCN });
-              if (isToday(dateObj)) label += ' (今天)';
-              if (isTomorrow(dateObj)) label += ' (明天)';
+              if (dateStr === todayKey) label += ' (今天)';
+              if (dateStr === addDaysToKey(todayKey, 1)) label += ' (明天)';
 
               return (
                 <div key={dateStr} className="animate-in fade-in slide-in-from-bottom-2 duration-500">
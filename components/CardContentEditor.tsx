@@ -0,0 +1,114 @@
+import { useState, useEffect, useRef } from 'react';
+import { Paperclip, Loader2 } from 'lucide-react';
+import { CardContent, Node } from '../types';
+import { useTreeContext } from '../hooks/useTree';
+import { AttachmentList } from './AttachmentList';
+import { getClozeKeys } from '../utils/cards';
+import { getCardFront } from '../utils/treeUtils';
+
+interface CardContentEditorProps {
+  node: Node;
+}
+
+const FIELDS: { key: keyof CardContent; label: string; rows: number }[] = [
+  { key: 'front', label: '正面 (问题)', rows: 2 },
+  { key: 'back', label: '背面 (答案)', rows: 3 },
+  { key: 'notes', label: '笔记', rows: 3 },
+];
+
+/**
+ * Edits a node's question/answer sides. Changes are saved on blur
+ * so typing does not trigger a store write per keystroke.
+ */
+export function CardContentEditor({ node }: CardContentEditorProps) {
+  const { updateNodeContent, addAttachment, removeAttachment, setReverseCard } = useTreeContext();
+  const [draft, setDraft] = useState<CardContent>(() => ({ ...node.content }));
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setDraft({ ...node.content });
+  }, [node.id, node.content]);
+
+  const commit = (key: keyof CardContent) => {
+    if ((draft[key] ?? '') === (node.content?.[key] ?? '')) return;
+    updateNodeContent(node.id, { [key]: draft[key] ?? '' });
+  };
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setIsUploading(true);
+    try {
+      for (const file of Array.from(files)) {
+        await addAttachment(node.id, file);
+      }
+    } catch (err) {
+      console.error('Failed to add attachment', err);
+      alert(err instanceof Error ? err.message : '附件添加失败，请重试。');
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {FIELDS.map(({ key, label, rows }) => (
+        <div key={key}>
+          <label className="block text-[10px] font-bold text-gray-500 uppercase mb-1">{label}</label>
+          <textarea
+            rows={rows}
+            value={draft[key] ?? ''}
+            placeholder={key === 'front' ? node.title : ''}
+            onChange={(e) => setDraft(prev => ({ ...prev, [key]: e.target.value }))}
+            onBlur={() => commit(key)}
+            onClick={(e) => e.stopPropagation()}
+            onKeyDown={(e) => e.stopPropagation()}
+            className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-indigo-500 resize-y placeholder:text-gray-300"
+          />
+        </div>
+      ))}
+      <label className="flex items-center gap-2 text-xs text-gray-600 cursor-pointer" onClick={(e) => e.stopPropagation()}>
+        <input
+          type="checkbox"
+          checked={!!node.reverse}
+          disabled={getClozeKeys(getCardFront(node)).length > 0}
+          onChange={(e) => setReverseCard(node.id, e.target.checked)}
+          className="accent-indigo-600"
+        />
+        同时生成反向卡片 (由答案回忆问题，单独安排复习)
+      </label>
+      {node.reverse && !node.content?.back && (
+        <p className="text-[10px] text-amber-500 -mt-2">填写背面后反向卡片才会出现。</p>
+      )}
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <label className="block text-[10px] font-bold text-gray-500 uppercase">附件 (图片 / 音频)</label>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              fileInputRef.current?.click();
+            }}
+            disabled={isUploading}
+            className="flex items-center gap-1 text-[10px] font-bold text-indigo-600 hover:bg-indigo-50 px-2 py-0.5 rounded disabled:opacity-50"
+          >
+            {isUploading ? <Loader2 size={12} className="animate-spin" /> : <Paperclip size={12} />}
+            添加
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*,audio/*"
+            multiple
+            className="hidden"
+            onChange={(e) => handleFiles(e.target.files)}
+          />
+        </div>
+        <AttachmentList attachments={node.attachments ?? []} onRemove={(hash) => removeAttachment(node.id, hash)} />
+      </div>
+      <p className="text-[10px] text-gray-400">正面留空时使用标题作为问题；没有答案的卡片无需翻面即可评分。</p>
+      <p className="text-[10px] text-gray-400">{'用 {{c1::答案}} 或 {{c1::答案::提示}} 挖空，每个编号单独复习。'}</p>
+    </div>
+  );
+}
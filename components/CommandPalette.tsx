@@ -0,0 +1,182 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Search, SlidersHorizontal, ChevronRight, CornerDownLeft } from 'lucide-react';
+import { useTreeContext } from '../hooks/useTree';
+import { EMPTY_FILTERS, SearchFilters, SearchRange, SearchStateFilter, hasActiveFilters, searchNodes } from '../utils/search';
+import { renderCloze } from '../utils/cards';
+import { RichText } from './RichText';
+
+interface CommandPaletteProps {
+  onClose: () => void;
+  onJump: (nodeId: string) => void;
+}
+
+const STATE_OPTIONS: { value: SearchStateFilter; label: string }[] = [
+  { value: 'due', label: '今日到期' },
+  { value: 'new', label: '新卡片' },
+  { value: 'suspended', label: '仅存储' },
+];
+
+const RANGE_INPUT_CLASS = 'w-16 border border-gray-300 rounded-lg px-2 py-1 text-xs outline-none focus:ring-2 focus:ring-indigo-500 bg-white';
+
+const RangeInputs = ({ label, range, step, onChange }: {
+  label: string;
+  range: SearchRange;
+  step: number;
+  onChange: (range: SearchRange) => void;
+}) => {
+  const parse = (value: string) => (value === '' ? undefined : Number(value));
+  return (
+    <div className="flex items-center gap-2">
+      <span className="w-14 text-xs text-gray-500">{label}</span>
+      <input type="number" min={0} step={step} value={range.min ?? ''} placeholder="最小" onChange={(e) => onChange({ ...range, min: parse(e.target.value) })} className={RANGE_INPUT_CLASS} />
+      <span className="text-gray-300">–</span>
+      <input type="number" min={0} step={step} value={range.max ?? ''} placeholder="最大" onChange={(e) => onChange({ ...range, max: parse(e.target.value) })} className={RANGE_INPUT_CLASS} />
+    </div>
+  );
+};
+
+/** Ctrl+K quick jump: fuzzy search over every subject, optionally narrowed by state and memory ranges. */
+export const CommandPalette = ({ onClose, onJump }: CommandPaletteProps) => {
+  const { nodes, settings } = useTreeContext();
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>(EMPTY_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const results = useMemo(
+    () => searchNodes(nodes, query, filters, settings, Date.now()),
+    [nodes, query, filters, settings]
+  );
+
+  useEffect(() => setActiveIndex(0), [query, filters]);
+
+  useEffect(() => {
+    listRef.current?.children[activeIndex]?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const toggleState = (state: SearchStateFilter) => {
+    const states = filters.states.includes(state)
+      ? filters.states.filter(s => s !== state)
+      : [...filters.states, state];
+    setFilters({ ...filters, states });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(Math.min(activeIndex + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(Math.max(activeIndex - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      const result = results[activeIndex];
+      if (result) onJump(result.node.id);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-start justify-center p-4 pt-[12vh]" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-xl w-full max-w-xl flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="flex items-center gap-2 px-4 border-b border-gray-100">
+          <Search size={18} className="text-gray-400 shrink-0" />
+          <input
+            autoFocus
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="搜索所有科目的节点和卡片内容…"
+            className="flex-1 py-4 text-sm outline-none bg-transparent"
+          />
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className={`p-1.5 rounded-lg transition-colors ${showFilters || hasActiveFilters(filters) ? 'bg-indigo-100 text-indigo-600' : 'text-gray-400 hover:bg-gray-100'}`}
+            title="筛选"
+          >
+            <SlidersHorizontal size={16} />
+          </button>
+        </div>
+
+        {showFilters && (
+          <div className="px-4 py-3 border-b border-gray-100 bg-gray-50/50 space-y-2">
+            <div className="flex items-center gap-2 flex-wrap">
+              <span className="w-14 text-xs text-gray-500">状态</span>
+              {STATE_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => toggleState(option.value)}
+                  className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors ${
+                    filters.states.includes(option.value)
+                      ? 'bg-indigo-600 border-indigo-600 text-white'
+                      : 'bg-white border-gray-200 text-gray-600 hover:border-indigo-300'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <RangeInputs label="难度 D" range={filters.difficulty} step={0.5} onChange={(difficulty) => setFilters({ ...filters, difficulty })} />
+            <RangeInputs label="稳定性 S" range={filters.stability} step={1} onChange={(stability) => setFilters({ ...filters, stability })} />
+            <div className="flex justify-between items-center text-[10px] text-gray-400">
+              <span>难度 1–10；稳定性以天计。设置范围时不含新卡片。</span>
+              {hasActiveFilters(filters) && (
+                <button onClick={() => setFilters(EMPTY_FILTERS)} className="text-indigo-500 hover:text-indigo-700 font-medium">
+                  清除筛选
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div ref={listRef} className="max-h-[50vh] overflow-y-auto custom-scrollbar">
+          {results.map((result, index) => (
+            <button
+              key={result.node.id}
+              onClick={() => onJump(result.node.id)}
+              onMouseMove={() => setActiveIndex(index)}
+              className={`w-full text-left px-4 py-2.5 flex items-center gap-3 ${index === activeIndex ? 'bg-indigo-50' : ''}`}
+            >
+              <div className="min-w-0 flex-1">
+                {result.path.length > 0 && (
+                  <div className="flex items-center gap-0.5 text-[10px] text-gray-400 truncate">
+                    {result.path.map((title, i) => (
+                      <span key={i} className="flex items-center gap-0.5 shrink-0">
+                        {i > 0 && <ChevronRight size={10} />}
+                        {renderCloze(title)}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                <div className="text-sm text-gray-800 truncate">
+                  <RichText text={renderCloze(result.node.title)} inline />
+                </div>
+                {result.snippet && <div className="text-xs text-gray-400 truncate">{result.snippet}</div>}
+              </div>
+              {index === activeIndex && <CornerDownLeft size={14} className="text-indigo-400 shrink-0" />}
+            </button>
+          ))}
+
+          {results.length === 0 && (
+            <div className="py-10 text-center text-sm text-gray-400">
+              {query.trim() || hasActiveFilters(filters) ? '没有匹配的节点' : '输入关键词，或打开筛选按状态查找'}
+            </div>
+          )}
+        </div>
+
+        <div className="px-4 py-2 border-t border-gray-100 text-[10px] text-gray-400 flex gap-3">
+          <span>↑↓ 选择</span>
+          <span>Enter 跳转</span>
+          <span>Esc 关闭</span>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import { useMemo } from 'react';
+import { Target } from 'lucide-react';
+import { useTreeContext } from '../hooks/useTree';
+import { PROFILE_SCOPE, getDailyProgress } from '../utils/presets';
+import { renderCloze } from '../utils/cards';
+
+const ProgressBar = ({ label, done, limit }: { label: string; done: number; limit?: number }) => {
+  const ratio = limit ? Math.min(1, done / limit) : 0;
+  return (
+    <div className="flex-1 min-w-0">
+      <div className="flex items-baseline justify-between text-xs mb-1">
+        <span className="text-gray-500 font-medium">{label}</span>
+        <span className="font-mono font-bold text-gray-700">
+          {done} / {limit ?? '∞'}
+        </span>
+      </div>
+      <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+        <div
+          className={`h-full rounded-full transition-all ${limit !== undefined && done >= limit ? 'bg-emerald-500' : 'bg-indigo-500'}`}
+          style={{ width: `${limit === undefined ? 0 : limit === 0 ? 100 : ratio * 100}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+/** Dashboard card: today's new cards and reviews against the profile and subject limits. */
+export const DailyProgress = () => {
+  const { nodes } = useTreeContext();
+  const rows = useMemo(() => getDailyProgress(nodes), [nodes]);
+
+  return (
+    <div className="bg-white p-6 rounded-3xl border border-gray-100 shadow-sm md:col-span-2">
+      <h3 className="text-lg font-bold text-gray-700 mb-4 flex items-center gap-2">
+          <Target className="text-indigo-500" />
+          今日进度
+      </h3>
+      <div className="space-y-4">
+        {rows.map(({ scope, newDone, reviewDone }) => (
+          <div key={scope.id}>
+            <div className="text-xs font-bold text-gray-400 mb-1.5 truncate">
+              {scope.id === PROFILE_SCOPE ? '全部' : renderCloze(nodes[scope.id].title)}
+            </div>
+            <div className="flex gap-6">
+              <ProgressBar label="新卡片" done={newDone} limit={scope.newPerDay} />
+              <ProgressBar label="复习" done={reviewDone} limit={scope.reviewsPerDay} />
+            </div>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-400 mt-4">超出上限的卡片保持到期，顺延到之后的学习日。</p>
+    </div>
+  );
+};
@@ -0,0 +1,178 @@
+import { useMemo, useState } from 'react';
+import { Filter, Settings2, X, Pencil, Trash2, Plus } from 'lucide-react';
+import { SavedFilter } from '../types';
+import { useTreeContext } from '../hooks/useTree';
+import { createFilterPredicate, parseFilter } from '../utils/filters';
+import { getReviewItems } from '../utils/cards';
+
+interface FilterScopeSelectProps {
+  value: string | null;
+  onChange: (filterId: string | null) => void;
+}
+
+const SYNTAX_HINTS: [string, string][] = [
+  ['#公式  tag:exam-1,weak', '带有任一标签（含上级节点的标签）'],
+  ['subject:数学', '属于该科目'],
+  ['state:new,review,due', '处于任一状态；due 表示今天结束前到期'],
+  ['due:3  due:-7..0  due:1..', '距今天的学习日范围，负数为逾期'],
+  ['is:leech', '难记卡片（反复遗忘且难度接近上限）'],
+  ['-#已掌握', '前加 - 表示排除'],
+  ['其他文字', '标题包含该文字'],
+];
+
+const FilterManagerModal = ({ onClose }: { onClose: () => void }) => {
+  const { nodes, settings, savedFilters, saveFilter, deleteFilter } = useTreeContext();
+  const [editing, setEditing] = useState<SavedFilter | null>(null);
+  const [name, setName] = useState('');
+  const [expression, setExpression] = useState('');
+
+  const { errors } = useMemo(() => parseFilter(expression), [expression]);
+  const matchCount = useMemo(() => {
+    if (!expression.trim()) return null;
+    const matches = createFilterPredicate(nodes, expression, settings, Date.now());
+    return getReviewItems(nodes).filter(matches).length;
+  }, [nodes, expression, settings]);
+
+  const startEdit = (filter: SavedFilter | null) => {
+    setEditing(filter);
+    setName(filter?.name ?? '');
+    setExpression(filter?.expression ?? '');
+  };
+
+  const handleSave = () => {
+    if (!name.trim() || !expression.trim()) return;
+    saveFilter({ id: editing?.id ?? crypto.randomUUID(), name: name.trim(), expression: expression.trim() });
+    startEdit(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={(e) => e.stopPropagation()}>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-[480px] flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200 max-h-[90vh]">
+
+        {/* Header */}
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50/50">
+          <div className="flex items-center gap-2">
+            <div className="p-1.5 bg-indigo-100 text-indigo-600 rounded-lg">
+                <Filter size={18} />
+            </div>
+            <div>
+                <h2 className="text-sm font-bold text-gray-800">保存的筛选</h2>
+                <p className="text-[10px] text-gray-400">用于今日复习、日程预测和打印计划</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-gray-200 rounded-full text-gray-400 transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto custom-scrollbar">
+          {/* Saved list */}
+          <div className="p-4 space-y-2 border-b border-gray-100">
+            {savedFilters.length === 0 && <p className="text-xs text-gray-400">还没有保存的筛选。</p>}
+            {savedFilters.map(filter => (
+              <div key={filter.id} className={`flex items-center gap-2 p-2 rounded-lg border ${editing?.id === filter.id ? 'border-indigo-300 bg-indigo-50' : 'border-gray-100'}`}>
+                <div className="min-w-0 flex-1">
+                  <div className="text-sm font-bold text-gray-700 truncate">{filter.name}</div>
+                  <div className="text-[10px] font-mono text-gray-400 truncate">{filter.expression}</div>
+                </div>
+                <button onClick={() => startEdit(filter)} className="p-1 text-gray-400 hover:text-indigo-600 hover:bg-gray-100 rounded" title="编辑">
+                  <Pencil size={14} />
+                </button>
+                <button
+                  onClick={() => {
+                    if (editing?.id === filter.id) startEdit(null);
+                    deleteFilter(filter.id);
+                  }}
+                  className="p-1 text-gray-400 hover:text-rose-600 hover:bg-rose-50 rounded"
+                  title="删除"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* Editor */}
+          <div className="p-4 space-y-3">
+            <div className="text-xs font-bold text-gray-600">{editing ? `编辑「${editing.name}」` : '新建筛选'}</div>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="名称，例如：期中考试"
+              className="w-full border border-gray-300 rounded-lg px-3 py-1.5 text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <input
+              type="text"
+              value={expression}
+              onChange={(e) => setExpression(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSave();
+              }}
+              placeholder="#exam-1 subject:数学 state:due"
+              className="w-full border border-gray-300 rounded-lg px-3 py-1.5 text-sm font-mono outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            {errors.map(error => (
+              <p key={error} className="text-[10px] text-rose-500">{error}（已忽略）</p>
+            ))}
+            {matchCount !== null && <p className="text-[10px] text-gray-400">当前匹配 {matchCount} 张卡片</p>}
+
+            <div className="flex justify-end gap-2">
+              {editing && (
+                <button onClick={() => startEdit(null)} className="px-3 py-2 text-xs font-bold text-gray-500 hover:bg-gray-100 rounded-lg transition-colors">
+                  取消
+                </button>
+              )}
+              <button
+                onClick={handleSave}
+                disabled={!name.trim() || !expression.trim()}
+                className="flex items-center gap-1 px-4 py-2 bg-indigo-600 text-white rounded-lg text-xs font-bold hover:bg-indigo-700 transition-colors disabled:opacity-50"
+              >
+                {!editing && <Plus size={14} />}
+                {editing ? '保存修改' : '添加'}
+              </button>
+            </div>
+
+            <div className="pt-2 border-t border-gray-100 space-y-1">
+              {SYNTAX_HINTS.map(([syntax, meaning]) => (
+                <div key={syntax} className="flex gap-3 text-[10px]">
+                  <code className="w-36 shrink-0 text-indigo-500">{syntax}</code>
+                  <span className="text-gray-400">{meaning}</span>
+                </div>
+              ))}
+              <p className="text-[10px] text-gray-400">多个条件用空格分隔，需同时满足。</p>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/** Picks the saved filter a view is scoped to; an empty value shows every card. */
+export const FilterScopeSelect = ({ value, onChange }: FilterScopeSelectProps) => {
+  const { savedFilters } = useTreeContext();
+  const [showManager, setShowManager] = useState(false);
+  const isActive = !!value && savedFilters.some(f => f.id === value);
+
+  return (
+    <div className={`flex items-center gap-1 rounded-lg px-2 py-1 ${isActive ? 'bg-indigo-50 text-indigo-600' : 'bg-white text-gray-500'}`}>
+      <Filter size={14} className="shrink-0" />
+      <select
+        value={isActive ? value! : ''}
+        onChange={(e) => onChange(e.target.value || null)}
+        className="bg-transparent text-xs font-medium outline-none cursor-pointer max-w-[8rem] truncate"
+        title="按保存的筛选限定范围"
+      >
+        <option value="">全部卡片</option>
+        {savedFilters.map(filter => (
+          <option key={filter.id} value={filter.id}>{filter.name}</option>
+        ))}
+      </select>
+      <button onClick={() => setShowManager(true)} className="p-0.5 rounded hover:bg-gray-200/60" title="管理筛选">
+        <Settings2 size={14} />
+      </button>
+      {showManager && <FilterManagerModal onClose={() => setShowManager(false)} />}
+    </div>
+  );
+};
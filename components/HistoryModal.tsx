@@ -1,6 +1,6 @@
 
 import React, { useState, useMemo } from 'react';
-import { X, ChevronLeft, ChevronRight, Trash2, History, Info } from 'lucide-react';
+import { X, ChevronLeft, ChevronRight, Trash2, History, Info, FileText, Pause, Play, RotateCcw, CalendarClock } from 'lucide-react';
 import { 
   format, 
   startOfMonth, 
@@ -10,27 +10,63 @@ import {
   isSameMonth, 
   addMonths, 
   subMonths, 
-  getDay,
-  setHours,
-  setMinutes,
-  isToday,
-  subDays
+  getDay
 } from 'date-fns';
-import { Rating, Node } from '../types';
+import { Rating, Node, FSRSLogEntry, LifecycleAction } from '../types';
+import { useTreeContext } from '../hooks/useTree';
+import { CardContentEditor } from './CardContentEditor';
+import { TagEditor } from './TagEditor';
+import { Backlinks } from './Backlinks';
+import { PrerequisiteRules } from './PrerequisiteRules';
+import { getCardLabel, getNodeItems, hasMultipleCards, renderCloze } from '../utils/cards';
+import { getLearningDayKey, getLearningDayStart, isBeforeDayStart, keyToDate } from '../utils/learningDay';
+import { isReviewLog } from '../fsrs';
 
 interface HistoryModalProps {
   node: Node;
   onClose: () => void;
-  onAddLog: (rating: Rating, date: number) => void;
-  onDeleteLog: (logId: string) => void;
+  onAddLog: (rating: Rating, date: number, cardKey?: string) => void;
+  onDeleteLog: (logId: string, cardKey?: string) => void;
 }
 
 const WEEKDAYS = ['日', '一', '二', '三', '四', '五', '六'];
 
+const LIFECYCLE_LABELS: Record<LifecycleAction, string> = {
+  suspend: '暂停复习',
+  unsuspend: '恢复复习',
+  reset: '重置进度',
+  reschedule: '改期',
+};
+
+const LIFECYCLE_ICONS: Record<LifecycleAction, React.ReactNode> = {
+  suspend: <Pause size={16} />,
+  unsuspend: <Play size={16} />,
+  reset: <RotateCcw size={16} />,
+  reschedule: <CalendarClock size={16} />,
+};
+
+// A timeline row; cardKey says whose history the entry is stored in
+interface HistoryEntryRow {
+  log: FSRSLogEntry;
+  cardKey?: string;
+}
+
 export function HistoryModal({ node, onClose, onAddLog, onDeleteLog }: HistoryModalProps) {
-  const [currentMonth, setCurrentMonth] = useState(new Date());
-  const [selectedDate, setSelectedDate] = useState(new Date());
+  const { settings, suspendNodes, unsuspendNodes, resetNodes } = useTreeContext();
+  const [includeSubtree, setIncludeSubtree] = useState(false);
+  const isSuspended = node.fsrs.state === 'suspended';
+  const todayKey = getLearningDayKey(Date.now(), settings);
+  const [currentMonth, setCurrentMonth] = useState(() => keyToDate(todayKey));
+  const [selectedDate, setSelectedDate] = useState(() => keyToDate(todayKey));
+  const selectedKey = format(selectedDate, 'yyyy-MM-dd');
   const [showHelp, setShowHelp] = useState(false);
+  const [tab, setTab] = useState<'history' | 'content'>('history');
+
+  // Nodes with several cards (clozes, reverse) keep one history per card
+  const items = getNodeItems(node);
+  const [cardKey, setCardKey] = useState(items[0]?.cardKey);
+  const card = items.find(item => item.cardKey === cardKey) ?? items[0];
+  const isCardSuspended = !isSuspended && !!card.cardKey && card.fsrs.state === 'suspended';
 
   // Generate calendar days
   const calendarDays = useMemo(() => {
@@ -45,46 +81,52 @@ export function HistoryModal({ node, onClose, onAddLog, onDeleteLog }: HistoryMo
     return [...padding, ...days];
   }, [currentMonth]);
 
+  // Node suspensions apply to every card, so they show in each card's timeline;
+  // a card suspended on its own (a leech) has the entry in its own history
+  const entries = useMemo<HistoryEntryRow[]>(() => [
+    ...card.logs.map(log => ({ log, cardKey: card.cardKey })),
+    ...(card.cardKey
+      ? node.logs.filter(log => !isReviewLog(log) && (log.action === 'suspend' || log.action === 'unsuspend')).map(log => ({ log, cardKey: undefined }))
+      : [])
+  ], [card.logs, card.cardKey, node.logs]);
+
   // Map logs to days for quick lookup
-  // ADJUSTMENT: Reviews between 00:00-03:00 belong to the previous day
+  // ADJUSTMENT: Reviews before the day rollover belong to the previous learning day
   const logsByDate = useMemo(() => {
-    const map = new Map<string, string>(); // dateString -> logId
-    node.logs.forEach(log => {
-      const logDate = new Date(log.reviewDate);
-      // If hour is 0, 1, or 2, shift to previous day
-      const visualDate = logDate.getHours() < 3 ? subDays(logDate, 1) : logDate;
-      const dateKey = format(visualDate, 'yyyy-MM-dd');
-      map.set(dateKey, log.id);
+    const map = new Map<string, 'review' | 'lifecycle'>(); // dateString -> strongest entry kind
+    entries.forEach(({ log }) => {
+      const key = getLearningDayKey(log.reviewDate, settings);
+      if (isReviewLog(log)) map.set(key, 'review');
+      else if (!map.has(key)) map.set(key, 'lifecycle');
     });
     return map;
-  }, [node.logs]);
+  }, [entries, settings]);
 
   const handlePrevMonth = () => setCurrentMonth(prev => subMonths(prev, 1));
   const handleNextMonth = () => setCurrentMonth(prev => addMonths(prev, 1));
 
-  // Find log for the currently selected date (using the visual adjustment logic reverse lookup is hard, so iterate)
-  const selectedLog = useMemo(() => {
-      return node.logs.find(log => {
-          const logDate = new Date(log.reviewDate);
-          const visualDate = logDate.getHours() < 3 ? subDays(logDate, 1) : logDate;
-          return isSameDay(visualDate, selectedDate);
-      });
-  }, [node.logs, selectedDate]);
+  // Find logs for the currently selected learning day
+  // Learning steps can produce several reviews on one day
+  const selectedLogs = useMemo(() => {
+      return entries
+        .filter(({ log }) => getLearningDayKey(log.reviewDate, settings) === selectedKey)
+        .sort((a, b) => a.log.reviewDate - b.log.reviewDate);
+  }, [entries, selectedKey, settings]);
+  const hasSelectedReview = selectedLogs.some(({ log }) => isReviewLog(log));
 
   const handleAddLog = (rating: Rating) => {
-    if (selectedLog) return; // Prevent duplicate
+    if (hasSelectedReview) return; // Prevent duplicate
 
     // Determine timestamp
-    // If today, use current time. If past/future, use 9:00 AM to be consistent
+    // If today, use current time. If past/future, use 6 hours after the rollover (9:00 AM by default) to be consistent
     let timestamp: number;
-    if (isToday(selectedDate)) {
+    if (selectedKey === todayKey) {
         timestamp = Date.now();
     } else {
-        const d = setHours(setMinutes(selectedDate, 0), 9);
-        timestamp = d.getTime();
+        timestamp = getLearningDayStart(selectedKey, settings) + 6 * 60 * 60 * 1000;
     }
     
-    onAddLog(rating, timestamp);
+    onAddLog(rating, timestamp, card.cardKey);
   };
 
   return (
@@ -98,23 +140,40 @@ export function HistoryModal({ node, onClose, onAddLog, onDeleteLog }: HistoryMo
                 <History size={18} />
             </div>
             <div>
-                <h2 className="text-sm font-bold text-gray-800 line-clamp-1">{node.title}</h2>
+                <h2 className="text-sm font-bold text-gray-800 line-clamp-1">{renderCloze(node.title)}</h2>
                 <button 
                   onClick={() => setShowHelp(!showHelp)}
                   className="flex items-center gap-1.5 text-[10px] text-gray-400 font-mono hover:text-indigo-600 transition-colors bg-transparent hover:bg-gray-100 px-1 rounded -ml-1 mt-0.5"
                 >
-                    <span>S: {node.fsrs.s.toFixed(2)} | D: {node.fsrs.d.toFixed(2)}</span>
+                    <span>S: {card.fsrs.s.toFixed(2)} | D: {card.fsrs.d.toFixed(2)}</span>
                     <Info size={10} />
                 </button>
             </div>
           </div>
-          <button onClick={onClose} className="p-1 hover:bg-gray-200 rounded-full text-gray-400 transition-colors">
-            <X size={18} />
-          </button>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setTab(tab === 'history' ? 'content' : 'history')}
+              className={`p-1 rounded-full transition-colors ${tab === 'content' ? 'bg-indigo-100 text-indigo-600' : 'text-gray-400 hover:bg-gray-200'}`}
+              title={tab === 'content' ? '返回复习记录' : '编辑问答内容'}
+            >
+              {tab === 'content' ? <History size={18} /> : <FileText size={18} />}
+            </button>
+            <button onClick={onClose} className="p-1 hover:bg-gray-200 rounded-full text-gray-400 transition-colors">
+              <X size={18} />
+            </button>
+          </div>
         </div>
 
+        {tab === 'content' && (
+            <div className="p-4 space-y-3">
+                <TagEditor node={node} />
+                <CardContentEditor node={node} />
+                <Backlinks node={node} />
+            </div>
+        )}
+
         {/* Content Container (Stacking Context) */}
-        <div className="relative">
+        <div className={`relative ${tab === 'content' ? 'hidden' : ''}`}>
             
             {/* Help Overlay */}
             {showHelp && (
@@ -155,6 +214,62 @@ export function HistoryModal({ node, onClose, onAddLog, onDeleteLog }: HistoryMo
 
             {/* Calendar Section */}
             <div className="p-4">
+                {hasMultipleCards(items) && (
+                    <div className="flex flex-wrap gap-1 mb-3">
+                        {items.map(item => (
+                            <button
+                                key={item.key}
+                                onClick={() => setCardKey(item.cardKey)}
+                                className={`px-2 py-0.5 rounded-full text-[10px] font-bold transition-colors ${item.cardKey === card.cardKey ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
+                            >
+                                {getCardLabel(item)}
+                            </button>
+                        ))}
+                    </div>
+                )}
+                {!isSuspended && !isCardSuspended && <PrerequisiteRules item={card} />}
+                {/* Lifecycle */}
+                <div className="flex items-center gap-2 mb-3">
+                    <button
+                        onClick={() => (isSuspended ? unsuspendNodes : suspendNodes)([node.id], { subtree: includeSubtree })}
+                        className="flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-bold bg-gray-100 text-gray-600 hover:bg-indigo-50 hover:text-indigo-600 transition-colors"
+                    >
+                        {isSuspended ? <Play size={12} /> : <Pause size={12} />}
+                        {isSuspended ? '恢复复习' : '暂停复习'}
+                    </button>
+                    {isCardSuspended && (
+                        <button
+                            onClick={() => unsuspendNodes([node.id], { cardKey: card.cardKey })}
+                            className="flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-bold bg-amber-50 text-amber-700 hover:bg-indigo-50 hover:text-indigo-600 transition-colors"
+                        >
+                            <Play size={12} />
+                            恢复此卡片
+                        </button>
+                    )}
+                    <button
+                        onClick={() => {
+                            if (confirm('重置后将作为新卡片重新学习，已有复习记录会保留。确定继续吗？')) {
+                                resetNodes([node.id], { subtree: includeSubtree });
+                            }
+                        }}
+                        className="flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-bold bg-gray-100 text-gray-600 hover:bg-rose-50 hover:text-rose-600 transition-colors"
+                    >
+                        <RotateCcw size={12} />
+                        重置进度
+                    </button>
+                    {node.children.length > 0 && (
+                        <label className="flex items-center gap-1 text-[10px] text-gray-500 ml-auto cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={includeSubtree}
+                                onChange={(e) => setIncludeSubtree(e.target.checked)}
+                                className="accent-indigo-600"
+                            />
+                            包括子项
+                        </label>
+                    )}
+                </div>
+
                 {/* Month Nav */}
                 <div className="flex items-center justify-between mb-4 px-2">
                     <button onClick={handlePrevMonth} className="p-1 hover:bg-gray-100 rounded text-gray-500"><ChevronLeft size={16} /></button>
@@ -173,8 +288,9 @@ export function HistoryModal({ node, onClose, onAddLog, onDeleteLog }: HistoryMo
                         const isCurrentMonth = isSameMonth(day, currentMonth);
                         const isSelected = isSameDay(day, selectedDate);
                         const dateKey = format(day, 'yyyy-MM-dd');
-                        const hasLog = logsByDate.has(dateKey);
-                        const isTodayDate = isToday(day);
+                        const logKind = logsByDate.get(dateKey);
+                        const hasLog = logKind === 'review';
+                        const isTodayDate = dateKey === todayKey;
 
                         return (
                             <button
@@ -188,8 +304,8 @@ export function HistoryModal({ node, onClose, onAddLog, onDeleteLog }: HistoryMo
                                 `}
                             >
                                 {format(day, 'd')}
-                                {hasLog && (
-                                    <div className={`absolute bottom-1 w-1 h-1 rounded-full ${isSelected ? 'bg-white' : 'bg-green-500'}`} />
+                                {logKind && (
+                                    <div className={`absolute bottom-1 w-1 h-1 rounded-full ${isSelected ? 'bg-white' : hasLog ? 'bg-green-500' : 'bg-gray-400'}`} />
                                 )}
                                 {isTodayDate && !isSelected && (
                                     <div className="absolute top-1 right-1 w-1.5 h-1.5 bg-rose-500 rounded-full" />
@@ -205,35 +321,56 @@ export function HistoryModal({ node, onClose, onAddLog, onDeleteLog }: HistoryMo
                          <h4 className="text-xs font-bold text-gray-500 uppercase">
                              {format(selectedDate, 'M月d日')} 复习记录
                          </h4>
-                         {selectedLog && (
-                             <button 
-                                onClick={() => onDeleteLog(selectedLog.id)}
-                                className="text-rose-500 p-1 hover:bg-rose-100 rounded"
-                                title="删除记录"
-                             >
-                                 <Trash2 size={14} />
-                             </button>
-                         )}
                     </div>
 
-                    {selectedLog ? (
-                        <div className="flex items-center gap-3">
-                            <div className="w-10 h-10 rounded-full bg-green-100 text-green-700 flex items-center justify-center font-bold text-lg">
-                                {selectedLog.rating}
-                            </div>
-                            <div>
-                                <div className="text-sm font-bold text-gray-800">
-                                    {['未知', '重来 (Again)', '困难 (Hard)', '良好 (Good)', '简单 (Easy)'][selectedLog.rating]}
-                                </div>
-                                <div className="text-xs text-gray-400">
-                                    {format(selectedLog.reviewDate, 'HH:mm')} 
-                                    {new Date(selectedLog.reviewDate).getHours() < 3 && <span className="ml-1 text-orange-400">(夜间)</span>}
+                    {selectedLogs.length > 0 && (
+                        <div className="space-y-2">
+                            {selectedLogs.map(({ log, cardKey: entryCardKey }) => (
+                                <div key={log.id} className="flex items-center gap-3">
+                                    {isReviewLog(log) ? (
+                                        <>
+                                            <div className="w-10 h-10 rounded-full bg-green-100 text-green-700 flex items-center justify-center font-bold text-lg">
+                                                {log.rating}
+                                            </div>
+                                            <div className="flex-1">
+                                                <div className="text-sm font-bold text-gray-800">
+                                                    {['未知', '重来 (Again)', '困难 (Hard)', '良好 (Good)', '简单 (Easy)'][log.rating]}
+                                                </div>
+                                                <div className="text-xs text-gray-400">
+                                                    {format(log.reviewDate, 'HH:mm')} 
+                                                    {isBeforeDayStart(log.reviewDate, settings) && <span className="ml-1 text-orange-400">(夜间)</span>}
+                                                </div>
+                                            </div>
+                                        </>
+                                    ) : (
+                                        <>
+                                            <div className="w-10 h-10 rounded-full bg-gray-200 text-gray-500 flex items-center justify-center">
+                                                {LIFECYCLE_ICONS[log.action]}
+                                            </div>
+                                            <div className="flex-1">
+                                                <div className="text-sm font-bold text-gray-600">
+                                                    {LIFECYCLE_LABELS[log.action]}
+                                                    {log.due !== undefined && <span className="ml-1 font-normal text-gray-400">→ {format(log.due, 'MMM d')}</span>}
+                                                </div>
+                                                <div className="text-xs text-gray-400">{format(log.reviewDate, 'HH:mm')}</div>
+                                            </div>
+                                        </>
+                                    )}
+                                    <button 
+                                       onClick={() => onDeleteLog(log.id, entryCardKey)}
+                                       className="text-rose-500 p-1 hover:bg-rose-100 rounded"
+                                       title="删除记录"
+                                    >
+                                        <Trash2 size={14} />
+                                    </button>
                                 </div>
-                            </div>
+                            ))}
                         </div>
-                    ) : (
-                        <div className="text-center">
-                            <p className="text-xs text-gray-400 mb-3">当日无记录</p>
+                    )}
+
+                    {!hasSelectedReview && (
+                        <div className={`text-center ${selectedLogs.length > 0 ? 'mt-3' : ''}`}>
+                            {selectedLogs.length === 0 && <p className="text-xs text-gray-400 mb-3">当日无记录</p>}
                             <div className="grid grid-cols-4 gap-2">
                                 {[1, 2, 3, 4].map((r) => (
                                     <button
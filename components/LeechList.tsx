@@ -0,0 +1,64 @@
+import { useMemo, useState } from 'react';
+import { Bug, ChevronRight } from 'lucide-react';
+import { useTreeContext } from '../hooks/useTree';
+import { HistoryModal } from './HistoryModal';
+import { RichText } from './RichText';
+import { getLeeches } from '../utils/leeches';
+import { getItemTitle } from '../utils/cards';
+import { getPathTitles } from '../utils/treeUtils';
+
+/** Dashboard card listing every leech; each row opens the node's history. */
+export const LeechList = () => {
+  const { nodes, settings, addRetroactiveLog, deleteLog } = useTreeContext();
+  const leeches = useMemo(() => getLeeches(nodes, settings), [nodes, settings]);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const openNode = openId ? nodes[openId] : undefined;
+
+  return (
+    <div className="bg-white p-6 rounded-3xl border border-gray-100 shadow-sm md:col-span-2">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-gray-700 flex items-center gap-2">
+            <Bug className="text-rose-500" />
+            难记卡片
+        </h3>
+        <span className="text-sm text-gray-400 font-medium">
+          遗忘 ≥ {settings.leechLapses} 次且 D ≥ {settings.leechDifficulty}
+        </span>
+      </div>
+
+      {leeches.length === 0 ? (
+        <p className="text-sm text-gray-400">目前没有反复遗忘的卡片。</p>
+      ) : (
+        <div className="divide-y divide-gray-50 max-h-80 overflow-y-auto custom-scrollbar">
+          {leeches.map(({ item, lapses }) => (
+            <button
+              key={item.key}
+              onClick={() => setOpenId(item.node.id)}
+              className="w-full flex items-center gap-3 py-2 px-2 text-left rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <div className="min-w-0 flex-1">
+                <div className="text-[10px] text-gray-400 truncate">{getPathTitles(nodes, item.node.parentId).join(' / ')}</div>
+                <div className="text-sm text-gray-700 truncate"><RichText text={getItemTitle(item)} inline /></div>
+              </div>
+              {item.fsrs.state === 'suspended' && (
+                <span className="text-[10px] text-gray-400 bg-gray-100 px-1.5 py-0.5 rounded">已暂停</span>
+              )}
+              <span className="text-xs font-mono text-rose-500 whitespace-nowrap">遗忘 {lapses}</span>
+              <span className="text-xs font-mono text-gray-400 whitespace-nowrap">D {item.fsrs.d.toFixed(1)}</span>
+              <ChevronRight size={14} className="text-gray-300" />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {openNode && (
+        <HistoryModal
+          node={openNode}
+          onClose={() => setOpenId(null)}
+          onAddLog={(rating, date, cardKey) => addRetroactiveLog(openNode.id, rating, date, cardKey)}
+          onDeleteLog={(logId, cardKey) => deleteLog(openNode.id, logId, cardKey)}
+        />
+      )}
+    </div>
+  );
+};
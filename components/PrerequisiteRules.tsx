@@ -0,0 +1,53 @@
+import { GitBranch } from 'lucide-react';
+import { format } from 'date-fns';
+import { ReviewItem } from '../types';
+import { useTreeContext } from '../hooks/useTree';
+import { getNodeItems, renderCloze } from '../utils/cards';
+import { getDependents, getEffectiveDue, getPrerequisiteStatus } from '../utils/prerequisites';
+
+/**
+ * How the prerequisite rules treat a card: what it waits on, and which cards wait on its node.
+ * Renders nothing when the rules are off for both.
+ */
+export const PrerequisiteRules = ({ item }: { item: ReviewItem }) => {
+  const { nodes } = useTreeContext();
+  const status = getPrerequisiteStatus(nodes, item);
+  const dependents = getDependents(nodes, item.node);
+  if (!status && dependents.length === 0) return null;
+
+  const heldDependents = dependents.filter(child =>
+    getNodeItems(child).some(childItem => getPrerequisiteStatus(nodes, childItem)?.isHeld)
+  );
+
+  return (
+    <div className="mb-3 p-2 rounded-lg bg-amber-50/60 border border-amber-100 space-y-1 text-[10px] text-gray-600">
+      <div className="flex items-center gap-1 font-bold text-amber-700">
+        <GitBranch size={12} />
+        前置规则
+      </div>
+      {status && (
+        <>
+          <p>
+            前置：<span className="font-bold">{renderCloze(status.parent.title)}</span>
+            {' '}· 稳定性 {status.parentStability.toFixed(1)} / {status.threshold} 天
+          </p>
+          <p className={status.isHeld ? 'text-amber-700' : 'text-green-700'}>
+            {status.isHeld ? '前置尚未稳定，本卡暂不进入复习队列' : '前置已稳定，按自身日程复习'}
+          </p>
+          {status.lapseAt !== undefined && getEffectiveDue(item, status) < item.fsrs.due && (
+            <p className="text-rose-600">
+              前置于 {format(status.lapseAt, 'M月d日 HH:mm')} 遗忘，到期从 {format(item.fsrs.due, 'M月d日')} 提前
+            </p>
+          )}
+        </>
+      )}
+      {dependents.length > 0 && (
+        <p>
+          {dependents.length} 个子项以此为前置
+          {heldDependents.length > 0 && <span className="text-amber-700">，其中 {heldDependents.length} 个等待本项稳定</span>}
+          ；本项选择「重来」会让它们提前到期。
+        </p>
+      )}
+    </div>
+  );
+};
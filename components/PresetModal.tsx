@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { X, SlidersHorizontal } from 'lucide-react';
+import { Node, SchedulingPreset } from '../types';
+import { useTreeContext } from '../hooks/useTree';
+import { resolveParameters, resolvePreset } from '../utils/presets';
+import { DEFAULT_PREREQUISITE_STABILITY } from '../utils/prerequisites';
+
+interface PresetModalProps {
+  node: Node;
+  onClose: () => void;
+}
+
+// Numeric fields; the prerequisite switch has a select of its own
+type PresetField = Exclude<keyof SchedulingPreset, 'prerequisites'>;
+
+const FIELDS: { key: PresetField; label: string; hint: string; step: number; min: number; max?: number }[] = [
+  { key: 'requestRetention', label: '目标保留率', hint: '0.70 - 0.99', step: 0.01, min: 0.7, max: 0.99 },
+  { key: 'maximumInterval', label: '最大间隔 (天)', hint: '天数', step: 1, min: 1 },
+  { key: 'newPerDay', label: '每日新卡上限', hint: '仅全局上限', step: 1, min: 0 },
+  { key: 'reviewsPerDay', label: '每日复习上限', hint: '仅全局上限', step: 1, min: 0 },
+  { key: 'prerequisiteStability', label: '前置稳定性 (天)', hint: `默认 ${DEFAULT_PREREQUISITE_STABILITY}`, step: 1, min: 0 },
+];
+
+export function PresetModal({ node, onClose }: PresetModalProps) {
+  const { nodes, updatePreset } = useTreeContext();
+
+  // Values inherited from ancestors, shown as placeholders
+  const inheritedParams = node.parentId ? resolveParameters(nodes, node.parentId) : null;
+  const inheritedPreset = node.parentId ? resolvePreset(nodes, node.parentId) : {};
+  const inherited: Omit<SchedulingPreset, 'prerequisites'> = {
+    requestRetention: inheritedParams?.requestRetention,
+    maximumInterval: inheritedParams?.maximumInterval,
+    newPerDay: inheritedPreset.newPerDay,
+    reviewsPerDay: inheritedPreset.reviewsPerDay,
+    prerequisiteStability: inheritedPreset.prerequisiteStability,
+  };
+
+  const [draft, setDraft] = useState<Record<PresetField, string>>(() => ({
+    requestRetention: node.preset?.requestRetention?.toString() ?? '',
+    maximumInterval: node.preset?.maximumInterval?.toString() ?? '',
+    newPerDay: node.preset?.newPerDay?.toString() ?? '',
+    reviewsPerDay: node.preset?.reviewsPerDay?.toString() ?? '',
+    prerequisiteStability: node.preset?.prerequisiteStability?.toString() ?? '',
+  }));
+  // undefined inherits; an explicit false switches the rules off below an opted-in ancestor
+  const [prerequisites, setPrerequisites] = useState<boolean | undefined>(node.preset?.prerequisites);
+
+  const handleSave = () => {
+    const preset: SchedulingPreset = {};
+    FIELDS.forEach(({ key, min, max }) => {
+      const value = parseFloat(draft[key]);
+      if (Number.isFinite(value) && value >= min && (max === undefined || value <= max)) {
+        preset[key] = value;
+      }
+    });
+    if (prerequisites !== undefined) preset.prerequisites = prerequisites;
+    updatePreset(node.id, Object.keys(preset).length > 0 ? preset : null);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={(e) => e.stopPropagation()}>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-[400px] flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+
+        {/* Header */}
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50/50">
+          <div className="flex items-center gap-2">
+            <div className="p-1.5 bg-indigo-100 text-indigo-600 rounded-lg">
+                <SlidersHorizontal size={18} />
+            </div>
+            <div>
+                <h2 className="text-sm font-bold text-gray-800 line-clamp-1">{node.title}</h2>
+                <p className="text-[10px] text-gray-400">调度预设 · 所有子项继承</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-gray-200 rounded-full text-gray-400 transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Fields */}
+        <div className="p-4 space-y-3">
+          {FIELDS.map(({ key, label, hint, step, min, max }) => (
+            <div key={key} className="flex items-center justify-between gap-4">
+              <label className="text-xs font-bold text-gray-600">{label}</label>
+              <input
+                type="number"
+                step={step}
+                min={min}
+                max={max}
+                value={draft[key]}
+                placeholder={inherited[key] !== undefined ? `继承: ${inherited[key]}` : hint}
+                onChange={(e) => setDraft(prev => ({ ...prev, [key]: e.target.value }))}
+                className="w-32 border border-gray-300 rounded-lg px-3 py-1.5 text-sm font-mono text-right focus:ring-2 focus:ring-indigo-500 outline-none placeholder:text-gray-300 placeholder:text-xs"
+              />
+            </div>
+          ))}
+          <div className="flex items-center justify-between gap-4">
+            <label className="text-xs font-bold text-gray-600" title="上级概念稳定前暂不复习子项；上级遗忘时子项提前到期">
+              按层级前置调度
+            </label>
+            <select
+              value={prerequisites === undefined ? '' : prerequisites ? 'on' : 'off'}
+              onChange={(e) => setPrerequisites(e.target.value === '' ? undefined : e.target.value === 'on')}
+              className="w-32 border border-gray-300 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+            >
+              <option value="">继承: {inheritedPreset.prerequisites ? '开启' : '关闭'}</option>
+              <option value="on">开启</option>
+              <option value="off">关闭</option>
+            </select>
+          </div>
+          <p className="text-[10px] text-gray-400 pt-1">留空表示继承上级设置。</p>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-gray-100 flex justify-between gap-2">
+          <button
+            onClick={() => {
+              updatePreset(node.id, null);
+              onClose();
+            }}
+            className="px-3 py-2 text-xs font-bold text-gray-500 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            清除预设
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-xs font-bold hover:bg-indigo-700 transition-colors"
+          >
+            保存
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
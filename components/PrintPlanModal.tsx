@@ -1,18 +1,26 @@
 
 import React, { useMemo, useState, useRef } from 'react';
 import { Printer, BrainCircuit, Image as ImageIcon, Loader2 } from 'lucide-react';
-import { format, addDays, endOfDay, isSameDay, isToday, isTomorrow } from 'date-fns';
+import { format, isSameDay } from 'date-fns';
 import { zhCN } from 'date-fns/locale';
 import { toPng } from 'html-to-image';
-import { Node, NodeMap } from '../types';
-import { currentRetrievability } from '../fsrs';
+import { NodeMap, ReviewItem } from '../types';
+import { currentRetrievability, DEFAULT_PARAMETERS } from '../fsrs';
+import { resolveParameters } from '../utils/presets';
+import { getSettings } from '../utils/treeUtils';
+import { addDaysToKey, getLearningDayEnd, getLearningDayKey, keyToDate } from '../utils/learningDay';
+import { RichText } from './RichText';
+import { getItemTitle, getReviewItems } from '../utils/cards';
+import { FilterScopeSelect } from './FilterScope';
+import { useSavedFilter } from '../hooks/useSavedFilter';
+import { useTreeContext } from '../hooks/useTree';
 
 interface PrintPlanViewProps {
   nodes: NodeMap;
 }
 
 interface PrioritizedItem {
-  node: Node;
+  card: ReviewItem;
   rootSubject: string;
   retrievability: number;
   priorityScore: number;
@@ -22,29 +30,30 @@ export function PrintPlanView({ nodes }: PrintPlanViewProps) {
   const printRef = useRef<HTMLDivElement>(null);
   const [isGeneratingImage, setIsGeneratingImage] = useState(false);
   
-  // Initialize targetDate based on the 3AM logic
-  const [targetDate, setTargetDate] = useState<Date>(() => {
-    const now = new Date();
-    // If between 00:00 and 03:00, default to 'Today'
-    if (now.getHours() < 3) return now;
-    // Otherwise default to 'Tomorrow'
-    return addDays(now, 1);
-  });
+  const settings = useMemo(() => getSettings(nodes), [nodes]);
+  const todayKey = getLearningDayKey(Date.now(), settings);
+
+  // Initialize targetDate to the next learning day:
+  // before the rollover that is still the calendar 'Today', otherwise 'Tomorrow'
+  const [targetDate, setTargetDate] = useState<Date>(() => keyToDate(addDaysToKey(todayKey, 1)));
+  const [filterId, setFilterId] = useState<string | null>(null);
+  const include = useSavedFilter(filterId);
+  const { savedFilters } = useTreeContext();
+  const scopeName = include ? savedFilters.find(f => f.id === filterId)?.name : undefined;
 
   // Generate next 7 days for selector
   const availableDates = useMemo(() => {
     const dates = [];
-    const today = new Date();
     // Allow going back 1 day (yesterday) just in case, and forward 7 days
     for (let i = -1; i < 7; i++) {
-        dates.push(addDays(today, i));
+        dates.push(keyToDate(addDaysToKey(todayKey, i)));
     }
     return dates;
-  }, []);
+  }, [todayKey]);
 
   // 1. Logic to group and prioritize items based on TARGET DATE
   const planData = useMemo(() => {
-    const targetTime = endOfDay(targetDate).getTime();
+    const targetTime = getLearningDayEnd(format(targetDate, 'yyyy-MM-dd'), settings);
     const items: PrioritizedItem[] = [];
 
     // Helper: Find the root subject (child of 'root') for a node
@@ -56,29 +65,31 @@ export function PrintPlanView({ nodes }: PrintPlanViewProps) {
         return curr ? curr.title : '其他';
     };
 
-    // Filter Review Queue
-    Object.values(nodes).forEach(node => {
-        if (
-            node.parentId !== null && 
-            node.fsrs.state !== 'suspended' &&
-            node.fsrs.due <= targetTime // Check against selected date
-        ) {
+    // Filter Review Queue (each cloze is its own line)
+    getReviewItems(nodes).forEach(item => {
+        const { node, fsrs } = item;
+        if (include && !include(item)) return;
+        if (fsrs.due <= targetTime) { // Check against selected date
+            const params = resolveParameters(nodes, node.id);
+
             // Calculate Retrievability (R)
             let r = 0;
             // For R calculation, we assume the review happens at the target date
             // This helps prioritize what will be most urgent THEN.
-            if (node.fsrs.lastReview === 0) {
+            if (fsrs.lastReview === 0) {
                 r = 0;
             } else {
-                const elapsedDays = (targetTime - node.fsrs.lastReview) / (1000 * 60 * 60 * 24);
-                r = currentRetrievability(node.fsrs.s, elapsedDays);
+                const elapsedDays = (targetTime - fsrs.lastReview) / (1000 * 60 * 60 * 24);
+                r = currentRetrievability(fsrs.s, elapsedDays, params);
             }
 
             // Calculate Priority Score
-            const priorityScore = node.fsrs.d * (1 - r);
+            // Subjects targeting a higher retention weigh the same forgetting more heavily
+            const retentionWeight = (1 - DEFAULT_PARAMETERS.requestRetention) / (1 - params.requestRetention);
+            const priorityScore = fsrs.d * (1 - r) * retentionWeight;
 
             items.push({
-                node,
+                card: item,
                 rootSubject: getRootSubject(node.id),
                 retrievability: r,
                 priorityScore
@@ -97,7 +108,7 @@ export function PrintPlanView({ nodes }: PrintPlanViewProps) {
     });
 
     return grouped;
-  }, [nodes, targetDate]);
+  }, [nodes, targetDate, settings, include]);
 
   const handlePrint = () => {
     window.print();
@@ -108,6 +119,8 @@ export function PrintPlanView({ nodes }: PrintPlanViewProps) {
     
     try {
         setIsGeneratingImage(true);
+        // KaTeX fonts load lazily; capture only once formulas have their glyphs
+        await document.fonts.ready;
         // Using a slightly larger pixel ratio for better quality
         const dataUrl = await toPng(printRef.current, { 
             cacheBust: true, 
@@ -175,9 +188,10 @@ export function PrintPlanView({ nodes }: PrintPlanViewProps) {
              <div className="flex items-center gap-2">
                 {availableDates.map(date => {
                     const isSelected = isSameDay(date, targetDate);
+                    const dateKey = format(date, 'yyyy-MM-dd');
                     let label = format(date, 'd');
-                    if (isToday(date)) label = '今天';
-                    if (isTomorrow(date)) label = '明天';
+                    if (dateKey === todayKey) label = '今天';
+                    if (dateKey === addDaysToKey(todayKey, 1)) label = '明天';
                     
                     return (
                         <button
@@ -200,7 +214,8 @@ export function PrintPlanView({ nodes }: PrintPlanViewProps) {
              </div>
          </div>
 
-         <div className="flex gap-2">
+         <div className="flex gap-2 items-center">
+             <FilterScopeSelect value={filterId} onChange={setFilterId} />
              <button 
                  onClick={handleExportImage}
                  disabled={isGeneratingImage}
@@ -239,7 +254,7 @@ export function PrintPlanView({ nodes }: PrintPlanViewProps) {
                             {format(targetDate, 'yyyy/MM/dd')}
                         </div>
                         <div className="text-sm text-gray-400 font-medium">
-                            {format(targetDate, 'EEEE', { locale: zhCN })} | 待复习: {totalItems} 项
+                            {format(targetDate, 'EEEE', { locale: zhCN })} | 待复习: {totalItems} 项{scopeName && ` | ${scopeName}`}
                         </div>
                     </div>
                 </div>
@@ -291,19 +306,19 @@ export function PrintPlanView({ nodes }: PrintPlanViewProps) {
 
                                         return (
                                             <div 
-                                                key={item.node.id} 
+                                                key={item.card.key} 
                                                 className="flex items-center justify-between py-2 border-b border-gray-100 last:border-0 text-sm print:py-1.5"
                                             >
                                                 <div className="flex items-center gap-3 flex-1 mr-4 overflow-hidden">
                                                     <span className={`w-1.5 h-1.5 rounded-full ${dotColor} flex-shrink-0`}></span>
-                                                    <span className="font-medium text-gray-800 truncate leading-tight">{item.node.title}</span>
+                                                    <span className="font-medium text-gray-800 truncate leading-tight"><RichText text={getItemTitle(item.card)} inline /></span>
                                                 </div>
                                                 
                                                 <div className="flex items-center flex-shrink-0">
                                                     {/* Screen Only: Stats */}
                                                     <div className="hidden sm:flex print:hidden items-center gap-3 text-xs font-mono text-gray-400 mr-4">
-                                                        <span title="难度">D:{item.node.fsrs.d.toFixed(1)}</span>
-                                                        <span title="稳定性">S:{item.node.fsrs.s.toFixed(1)}</span>
+                                                        <span title="难度">D:{item.card.fsrs.d.toFixed(1)}</span>
+                                                        <span title="稳定性">S:{item.card.fsrs.s.toFixed(1)}</span>
                                                         <span title="保留率" className="font-bold text-gray-500">R:{(item.retrievability * 100).toFixed(0)}%</span>
                                                     </div>
 
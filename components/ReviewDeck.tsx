@@ -1,28 +1,75 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ListTodo, ArrowLeft } from 'lucide-react';
-import { Node, Rating } from '../types';
+import { ListTodo, ArrowLeft, Undo2 } from 'lucide-react';
+import { Rating, ReviewItem, SchedulingInfo } from '../types';
 import { computeNextSchedule } from '../fsrs';
+import { useTreeContext } from '../hooks/useTree';
+import { resolveParameters } from '../utils/presets';
 import { SwipeableCard } from './SwipeableCard';
 import type { SwipeDirection } from './SwipeableCard';
+import { FilterScopeSelect } from './FilterScope';
+import { useSavedFilter } from '../hooks/useSavedFilter';
 
 interface ReviewDeckProps {
-  queue: Node[];
-  onReviewComplete: (id: string, s: number, d: number, interval: number, rating: Rating) => void;
+  queue: ReviewItem[];
+  buried: ReviewItem[]; // Due today but buried behind a sibling reviewed earlier
+  onReviewComplete: (id: string, schedule: SchedulingInfo, rating: Rating, cardKey?: string) => string;
   onExit: () => void;
 }
 
-export const ReviewDeck = ({ queue, onReviewComplete, onExit }: ReviewDeckProps) => {
+// A rating given in this session, kept so a mis-swipe can be reverted
+interface UndoEntry {
+  item: ReviewItem; // As it was before the rating
+  logId: string;
+}
+
+export const ReviewDeck = ({ queue: fullQueue, buried, onReviewComplete, onExit }: ReviewDeckProps) => {
+  const { nodes, undoReview } = useTreeContext();
+
+  // A saved filter narrows the session; daily limits were already applied to the full queue
+  const [filterId, setFilterId] = useState<string | null>(null);
+  const include = useSavedFilter(filterId);
+  const queue = useMemo(() => (include ? fullQueue.filter(include) : fullQueue), [fullQueue, include]);
+  const buriedCount = useMemo(() => (include ? buried.filter(include) : buried).length, [buried, include]);
+
   // We maintain a local queue state to handle immediate visual removal
   // even if the parent state update lags slightly.
-  const [activeQueue, setActiveQueue] = useState<Node[]>(queue);
+  const [activeQueue, setActiveQueue] = useState<ReviewItem[]>(queue);
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+  // A card just brought back by undo stays on top when the queue is rebuilt
+  const [restored, setRestored] = useState<ReviewItem | null>(null);
+
+  useEffect(() => {
+    if (!restored) {
+      setActiveQueue(queue);
+      return;
+    }
+    const current = queue.find(item => item.key === restored.key) ?? restored;
+    setActiveQueue([current, ...queue.filter(item => item.key !== restored.key)]);
+  }, [queue, restored]);
+
+  const handleUndo = useCallback(() => {
+    const last = undoStack[undoStack.length - 1];
+    if (!last) return;
+    undoReview(last.item.node.id, last.logId, last.item.fsrs, last.item.cardKey);
+    setUndoStack(prev => prev.slice(0, -1));
+    setRestored(last.item);
+  }, [undoStack, undoReview]);
 
+  // Ctrl/Cmd+Z reverts the last rating
   useEffect(() => {
-    setActiveQueue(queue);
-  }, [queue]);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && !e.shiftKey && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        handleUndo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo]);
 
-  const handleSwipe = (direction: SwipeDirection, cardId: string) => {
+  const handleSwipe = (direction: SwipeDirection, itemKey: string) => {
     // 1. Map direction to Rating
     let rating: Rating = 3; // Default Good
     switch (direction) {
@@ -33,19 +80,23 @@ export const ReviewDeck = ({ queue, onReviewComplete, onExit }: ReviewDeckProps)
     }
 
     // 2. Compute Schedule
-    const currentNode = activeQueue.find(n => n.id === cardId);
-    if (!currentNode) return;
+    const currentItem = activeQueue.find(item => item.key === itemKey);
+    if (!currentItem) return;
 
-    const result = computeNextSchedule(currentNode.fsrs, rating, Date.now());
+    const nodeId = currentItem.node.id;
+    const result = computeNextSchedule(currentItem.fsrs, rating, Date.now(), resolveParameters(nodes, nodeId));
 
     // 3. Update Parent State (Sync)
-    onReviewComplete(cardId, result.s, result.d, result.interval, rating);
+    const logId = onReviewComplete(nodeId, result, rating, currentItem.cardKey);
+    setUndoStack(prev => [...prev, { item: currentItem, logId }]);
 
     // 4. Update Local State (Visual)
+    setRestored(null);
     setActiveQueue(prev => prev.slice(1));
   };
 
-  const handleSkip = (cardId: string) => {
+  const handleSkip = () => {
+    setRestored(null);
     // Move current card to end of queue visually
     setActiveQueue(prev => {
         const [first, ...rest] = prev;
@@ -62,14 +113,29 @@ export const ReviewDeck = ({ queue, onReviewComplete, onExit }: ReviewDeckProps)
         </div>
         <h2 className="text-3xl font-bold text-gray-900 mb-2">今日任务达成！</h2>
         <p className="text-gray-500 mb-8 max-w-md">
-          所有待复习卡片已清空。休息一下，明天继续保持。
+          {include ? '当前筛选范围内的卡片已全部复习。' : '所有待复习卡片已清空。休息一下，明天继续保持。'}
+          {buriedCount > 0 && <span className="block text-sm text-gray-400 mt-1">另有 {buriedCount} 张同组卡片已搁置到明天。</span>}
         </p>
+        {(include || fullQueue.length > 0) && (
+          <div className="mb-6">
+            <FilterScopeSelect value={filterId} onChange={setFilterId} />
+          </div>
+        )}
         <button 
           onClick={onExit}
           className="px-8 py-3 bg-indigo-600 text-white rounded-xl font-bold hover:bg-indigo-700 shadow-lg shadow-indigo-200 transition-all hover:scale-105 active:scale-95"
         >
           返回首页
         </button>
+        {undoStack.length > 0 && (
+          <button
+            onClick={handleUndo}
+            className="mt-4 flex items-center gap-1.5 text-sm text-gray-400 hover:text-indigo-600 transition-colors"
+          >
+            <Undo2 size={14} />
+            撤销上一次评分
+          </button>
+        )}
       </div>
     );
   }
@@ -85,8 +151,29 @@ export const ReviewDeck = ({ queue, onReviewComplete, onExit }: ReviewDeckProps)
             >
                 <ArrowLeft size={20} />
             </button>
-            <div className="px-3 py-1 bg-white/80 backdrop-blur rounded-full text-xs font-mono font-bold text-indigo-600 shadow-sm">
-                剩余: {activeQueue.length}
+            <div className="flex items-center gap-2">
+                <div className="pointer-events-auto shadow-sm rounded-lg">
+                    <FilterScopeSelect value={filterId} onChange={setFilterId} />
+                </div>
+                <button
+                    onClick={handleUndo}
+                    disabled={undoStack.length === 0}
+                    className="pointer-events-auto p-2 bg-white/80 backdrop-blur rounded-full text-gray-600 hover:text-gray-900 shadow-sm hover:bg-white transition-all disabled:opacity-40 disabled:pointer-events-none"
+                    title="撤销上一次评分 (Ctrl+Z)"
+                >
+                    <Undo2 size={20} />
+                </button>
+                {buriedCount > 0 && (
+                    <div
+                        className="pointer-events-auto px-3 py-1 bg-white/80 backdrop-blur rounded-full text-xs font-mono font-bold text-gray-400 shadow-sm"
+                        title="同组的卡片今天已复习过一张，其余推迟到明天，避免互相提示答案"
+                    >
+                        搁置: {buriedCount}
+                    </div>
+                )}
+                <div className="px-3 py-1 bg-white/80 backdrop-blur rounded-full text-xs font-mono font-bold text-indigo-600 shadow-sm">
+                    剩余: {activeQueue.length}
+                </div>
             </div>
         </div>
 
@@ -97,7 +184,7 @@ export const ReviewDeck = ({ queue, onReviewComplete, onExit }: ReviewDeckProps)
                     // index 0 is active card. 
                     return (
                         <CardWrapper 
-                            key={item.id} 
+                            key={item.key} 
                             item={item} 
                             index={index} 
                             onSwipe={handleSwipe}
@@ -133,10 +220,10 @@ export const ReviewDeck = ({ queue, onReviewComplete, onExit }: ReviewDeckProps)
 
 // Helper wrapper to handle Layout Animations (Stacking) cleanly
 interface CardWrapperProps { 
-    item: Node;
+    item: ReviewItem;
     index: number;
     onSwipe: (d: SwipeDirection, id: string) => void;
-    onSkip: (id: string) => void;
+    onSkip: () => void;
 }
 
 const CardWrapper: React.FC<CardWrapperProps> = ({ item, index, onSwipe, onSkip }) => {
@@ -177,8 +264,8 @@ const CardWrapper: React.FC<CardWrapperProps> = ({ item, index, onSwipe, onSkip
                  <SwipeableCard 
                     data={item} 
                     index={index} 
-                    onSwipe={(dir) => onSwipe(dir, item.id)}
-                    onSkip={() => onSkip(item.id)}
+                    onSwipe={(dir) => onSwipe(dir, item.key)}
+                    onSkip={onSkip}
                  />
             </div>
         </motion.div>
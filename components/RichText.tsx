@@ -0,0 +1,152 @@
+import React, { createContext, useContext, useMemo } from 'react';
+import katex from 'katex';
+import { BlockToken, CodeToken, InlineToken, highlightCode, parseBlocks, parseInline } from '../utils/richText';
+import { TreeContext } from '../hooks/useTree';
+import { findLinkTarget, toLinkLabel } from '../utils/links';
+import { isTrashed } from '../utils/trash';
+
+// Opens a linked node; provided by the app shell, which owns navigation
+export const LinkNavigationContext = createContext<((nodeId: string) => void) | null>(null);
+
+interface RichTextProps {
+  text: string;
+  // Single-line surfaces (tree rows, map nodes, event chips) only render inline markup
+  inline?: boolean;
+  className?: string;
+}
+
+const CODE_CLASSES: Record<CodeToken['kind'], string> = {
+  plain: '',
+  keyword: 'text-pink-400',
+  string: 'text-emerald-300',
+  number: 'text-amber-300',
+  comment: 'text-slate-500 italic',
+};
+
+const TexMath = ({ tex, display }: { tex: string; display: boolean }) => {
+  // KaTeX output is trusted markup: \href and friends stay disabled by default
+  const html = useMemo(
+    () => katex.renderToString(tex, { displayMode: display, throwOnError: false, output: 'html' }),
+    [tex, display]
+  );
+  return display
+    ? <div className="my-2 overflow-x-auto overflow-y-hidden" dangerouslySetInnerHTML={{ __html: html }} />
+    : <span dangerouslySetInnerHTML={{ __html: html }} />;
+};
+
+// Shows the target's current title; links to missing or trashed nodes render struck through
+const WikiLink = ({ label, target }: { label: string; target?: string }) => {
+  const tree = useContext(TreeContext);
+  const navigate = useContext(LinkNavigationContext);
+  const nodes = tree?.nodes ?? {};
+  const node = target ? nodes[target] : findLinkTarget(nodes, label, '');
+  const isLive = !!node && !isTrashed(nodes, node.id);
+
+  if (!isLive || !navigate) {
+    return (
+      <span className={isLive ? 'text-violet-600' : 'text-gray-400 line-through'} title={isLive ? undefined : '链接的节点不存在或已删除'}>
+        {isLive ? toLinkLabel(node!.title) : label}
+      </span>
+    );
+  }
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        e.stopPropagation();
+        navigate(node!.id);
+      }}
+      onPointerDown={(e) => e.stopPropagation()}
+      className="text-violet-600 underline decoration-dotted underline-offset-2 hover:text-violet-800"
+      title="跳转到链接的节点"
+    >
+      {toLinkLabel(node!.title) || label}
+    </button>
+  );
+};
+
+const Inline = ({ tokens }: { tokens: InlineToken[] }) => (
+  <>
+    {tokens.map((token, i) => {
+      switch (token.type) {
+        case 'text': return <React.Fragment key={i}>{token.text}</React.Fragment>;
+        case 'code': return <code key={i} className="px-1 py-0.5 rounded bg-gray-100 text-rose-600 font-mono text-[0.9em]">{token.text}</code>;
+        case 'math': return <TexMath key={i} tex={token.tex} display={false} />;
+        case 'strong': return <strong key={i} className="font-bold"><Inline tokens={token.children} /></strong>;
+        case 'em': return <em key={i}><Inline tokens={token.children} /></em>;
+        case 'del': return <del key={i}><Inline tokens={token.children} /></del>;
+        case 'wikilink': return <WikiLink key={i} label={token.label} target={token.target} />;
+        case 'link': return (
+          <a
+            key={i}
+            href={token.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-indigo-600 underline"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <Inline tokens={token.children} />
+          </a>
+        );
+      }
+    })}
+  </>
+);
+
+const Lines = ({ lines }: { lines: InlineToken[][] }) => (
+  <>
+    {lines.map((line, i) => (
+      <React.Fragment key={i}>
+        {i > 0 && <br />}
+        <Inline tokens={line} />
+      </React.Fragment>
+    ))}
+  </>
+);
+
+const HEADING_CLASSES = ['', 'text-[1.3em] font-bold', 'text-[1.15em] font-bold', 'font-bold'];
+
+const Block = ({ block }: { block: BlockToken }) => {
+  switch (block.type) {
+    case 'paragraph': return <p><Lines lines={block.lines} /></p>;
+    case 'heading': return <div className={HEADING_CLASSES[block.level]}><Inline tokens={block.children} /></div>;
+    case 'quote': return <blockquote className="border-l-4 border-gray-200 pl-3 text-gray-500"><Lines lines={block.lines} /></blockquote>;
+    case 'math': return <TexMath tex={block.tex} display />;
+    case 'list': {
+      const List = block.ordered ? 'ol' : 'ul';
+      return (
+        <List className={`pl-5 text-left ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+          {block.items.map((item, i) => <li key={i}><Inline tokens={item} /></li>)}
+        </List>
+      );
+    }
+    case 'code': return (
+      <pre className="text-left text-xs leading-relaxed bg-slate-900 text-slate-100 rounded-lg p-3 overflow-x-auto font-mono">
+        <code>
+          {highlightCode(block.text, block.lang).map((token, i) => (
+            <span key={i} className={CODE_CLASSES[token.kind]}>{token.text}</span>
+          ))}
+        </code>
+      </pre>
+    );
+  }
+};
+
+/**
+ * Renders card text with Markdown, $inline$ / $$block$$ TeX and fenced code.
+ * Plain titles render exactly as before.
+ */
+export const RichText = React.memo(({ text, inline = false, className = '' }: RichTextProps) => {
+  const inlineTokens = useMemo(() => (inline ? parseInline(text.replace(/\s*\n\s*/g, ' ')) : null), [text, inline]);
+  const blocks = useMemo(() => (inline ? null : parseBlocks(text)), [text, inline]);
+
+  if (inlineTokens) {
+    return <span className={className}><Inline tokens={inlineTokens} /></span>;
+  }
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      {blocks!.map((block, i) => <Block key={i} block={block} />)}
+    </div>
+  );
+});
@@ -0,0 +1,620 @@
+import { useState, useEffect, useRef } from 'react';
+import { Settings, RotateCcw, Check, Cpu, Loader2, Download, Upload } from 'lucide-react';
+import { useTreeContext } from '../hooks/useTree';
+import { useOptimizer } from '../hooks/useOptimizer';
+import { DEFAULT_PARAMETERS, DEFAULT_WEIGHTS_BY_VERSION } from '../fsrs';
+import { FSRSVersion, LeechAction } from '../types';
+import { getDeviceTimeZone, isValidTimeZone } from '../utils/learningDay';
+import { createBackup, restoreBackup } from '../utils/backup';
+import { LEECH_FILTER_EXPRESSION, LEECH_TAG } from '../utils/leeches';
+
+const COMMON_TIME_ZONES = [
+  'Asia/Shanghai', 'Asia/Hong_Kong', 'Asia/Taipei', 'Asia/Tokyo', 'Asia/Singapore',
+  'Europe/London', 'Europe/Berlin', 'America/New_York', 'America/Los_Angeles', 'Australia/Sydney', 'UTC',
+];
+
+const parseWeights = (text: string): number[] | null => {
+  const values = text.split(/[\s,]+/).filter(Boolean).map(Number);
+  if (values.length !== DEFAULT_PARAMETERS.w.length || values.some(v => !Number.isFinite(v))) {
+    return null;
+  }
+  return values;
+};
+
+const LEECH_ACTIONS: { value: LeechAction; label: string; hint: string }[] = [
+  { value: 'tag', label: '添加标签', hint: `标记为 #${LEECH_TAG}` },
+  { value: 'suspend', label: '暂停复习', hint: '仅暂停该卡片' },
+  { value: 'filter', label: '归入筛选', hint: `保存筛选 ${LEECH_FILTER_EXPRESSION}` },
+];
+
+const TRASH_RETENTION_OPTIONS = [7, 14, 30, 90, 365, 0];
+
+// Steps are stored in minutes and edited as e.g. "1m 10m 1h"
+const STEP_UNITS: Record<string, number> = { m: 1, h: 60, d: 24 * 60 };
+
+const parseSteps = (text: string): number[] | null => {
+  const tokens = text.split(/[\s,]+/).filter(Boolean);
+  const steps = tokens.map(token => {
+    const match = token.match(/^(\d+(?:\.\d+)?)([mhd]?)$/i);
+    if (!match) return NaN;
+    return parseFloat(match[1]) * STEP_UNITS[(match[2] || 'm').toLowerCase()];
+  });
+  return steps.every(step => step > 0) ? steps : null;
+};
+
+const formatSteps = (steps: number[]): string =>
+  steps.map(step => {
+    if (step % (24 * 60) === 0) return `${step / (24 * 60)}d`;
+    if (step % 60 === 0) return `${step / 60}h`;
+    return `${step}m`;
+  }).join(' ');
+
+function StepsInput({ label, steps, onChange }: { label: string; steps: number[]; onChange: (steps: number[]) => void }) {
+  const [text, setText] = useState(formatSteps(steps));
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    setText(formatSteps(steps));
+    setError(false);
+  }, [steps]);
+
+  const commit = () => {
+    const parsed = parseSteps(text);
+    if (!parsed) {
+      setError(true);
+      return;
+    }
+    onChange(parsed);
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <label className="text-xs font-bold text-gray-600 whitespace-nowrap">{label}</label>
+      <input
+        type="text"
+        value={text}
+        placeholder="无"
+        onChange={(e) => {
+          setText(e.target.value);
+          setError(false);
+        }}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit();
+        }}
+        className={`w-40 border rounded-lg px-3 py-1.5 text-sm font-mono text-right outline-none focus:ring-2 focus:ring-indigo-500 ${
+          error ? 'border-rose-400 bg-rose-50' : 'border-gray-300'
+        }`}
+      />
+    </div>
+  );
+}
+
+// An empty field lifts the limit
+function LimitInput({ label, value, onChange }: { label: string; value: number | null; onChange: (value: number | null) => void }) {
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <label className="text-xs font-bold text-gray-600">{label}</label>
+      <input
+        type="number"
+        min={0}
+        value={value ?? ''}
+        placeholder="不限"
+        onChange={(e) => {
+          if (e.target.value === '') return onChange(null);
+          const parsed = parseInt(e.target.value, 10);
+          if (parsed >= 0) onChange(parsed);
+        }}
+        className="w-28 border border-gray-300 rounded-lg px-3 py-1.5 text-sm font-mono text-right focus:ring-2 focus:ring-indigo-500 outline-none"
+      />
+    </div>
+  );
+}
+
+const VERSIONS: { value: FSRSVersion; label: string; hint: string }[] = [
+  { value: 'fsrs-4.5', label: 'FSRS v4.5', hint: '同日复习不影响稳定性' },
+  { value: 'fsrs-5', label: 'FSRS-5', hint: '同日复习参与短期稳定性更新' },
+];
+
+function Toggle({ label, hint, checked, onChange }: { label: string; hint: string; checked: boolean; onChange: (checked: boolean) => void }) {
+  return (
+    <label className="flex items-center justify-between gap-4 cursor-pointer">
+      <div>
+        <div className="text-xs font-bold text-gray-600">{label}</div>
+        <div className="text-[10px] text-gray-400">{hint}</div>
+      </div>
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={(e) => onChange(e.target.checked)}
+        className="w-4 h-4 accent-indigo-600"
+      />
+    </label>
+  );
+}
+
+export function SettingsView() {
+  const { nodes, parameters, updateParameters, settings, updateSettings, replaceNodes, savedFilters, saveFilter } = useTreeContext();
+  const [timeZoneText, setTimeZoneText] = useState(settings.timeZone);
+
+  useEffect(() => {
+    setTimeZoneText(settings.timeZone);
+  }, [settings.timeZone]);
+
+  const commitTimeZone = () => {
+    if (isValidTimeZone(timeZoneText)) {
+      updateSettings({ timeZone: timeZoneText });
+    } else {
+      setTimeZoneText(settings.timeZone);
+    }
+  };
+
+  const [backupBusy, setBackupBusy] = useState(false);
+  const backupInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExportBackup = async () => {
+    setBackupBusy(true);
+    try {
+      const blob = await createBackup(nodes);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.download = `MemoryFlow_Backup_${new Date().toISOString().slice(0, 10)}.json`;
+      link.href = url;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Failed to export backup', err);
+      alert('备份导出失败，请重试。');
+    } finally {
+      setBackupBusy(false);
+    }
+  };
+
+  const handleImportBackup = async (file: File | undefined) => {
+    if (!file) return;
+    if (!confirm('导入备份会覆盖当前所有数据，确定继续吗？')) return;
+    setBackupBusy(true);
+    try {
+      replaceNodes(await restoreBackup(file));
+    } catch (err) {
+      console.error('Failed to import backup', err);
+      alert(err instanceof Error ? err.message : '备份导入失败。');
+    } finally {
+      setBackupBusy(false);
+      if (backupInputRef.current) backupInputRef.current.value = '';
+    }
+  };
+
+  // The leeches filter is created once; renaming or editing it afterwards is up to the user
+  const handleLeechAction = (leechAction: LeechAction) => {
+    updateSettings({ leechAction });
+    if (leechAction === 'filter' && !savedFilters.some(filter => filter.expression === LEECH_FILTER_EXPRESSION)) {
+      saveFilter({ id: crypto.randomUUID(), name: '难记卡片', expression: LEECH_FILTER_EXPRESSION });
+    }
+  };
+
+  const optimizer = useOptimizer();
+  const [weightsText, setWeightsText] = useState(parameters.w.join(', '));
+  const [weightsError, setWeightsError] = useState(false);
+
+  // Keep the editor in sync when parameters change elsewhere (reset, cloud pull)
+  useEffect(() => {
+    setWeightsText(parameters.w.join(', '));
+    setWeightsError(false);
+  }, [parameters.w]);
+
+  const handleApplyWeights = () => {
+    const w = parseWeights(weightsText);
+    if (!w) {
+      setWeightsError(true);
+      return;
+    }
+    updateParameters({ w });
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-gray-50">
+      {/* Header */}
+      <div className="flex-shrink-0 h-16 border-b border-gray-200 flex items-center justify-between px-4 md:px-8 bg-white sticky top-0 z-10">
+        <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+          <Settings className="text-indigo-500" size={24} />
+          设置
+        </h2>
+        <button
+          onClick={() => updateParameters(DEFAULT_PARAMETERS)}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium rounded-lg text-gray-500 hover:text-gray-700 hover:bg-gray-100 transition-all"
+        >
+          <RotateCcw size={14} />
+          恢复默认
+        </button>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto p-4 md:p-8 custom-scrollbar">
+        <div className="max-w-2xl mx-auto space-y-6 pb-24">
+
+          {/* Learning Day */}
+          <section className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm space-y-3">
+            <h3 className="text-sm font-bold text-gray-700">学习日</h3>
+            <div className="flex items-center justify-between gap-4">
+              <label className="text-xs font-bold text-gray-600">新一天开始于</label>
+              <select
+                value={settings.dayStartHour}
+                onChange={(e) => updateSettings({ dayStartHour: parseInt(e.target.value, 10) })}
+                className="w-40 border border-gray-300 rounded-lg px-3 py-1.5 text-sm font-mono outline-none focus:ring-2 focus:ring-indigo-500 bg-white"
+              >
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <option key={hour} value={hour}>{`${hour.toString().padStart(2, '0')}:00`}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <label className="text-xs font-bold text-gray-600">时区</label>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => updateSettings({ timeZone: getDeviceTimeZone() })}
+                  className="text-[10px] text-gray-400 hover:text-indigo-600 whitespace-nowrap"
+                >
+                  使用设备时区
+                </button>
+                <input
+                  type="text"
+                  list="memoryflow-time-zones"
+                  value={timeZoneText}
+                  onChange={(e) => setTimeZoneText(e.target.value)}
+                  onBlur={commitTimeZone}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitTimeZone();
+                  }}
+                  className="w-40 border border-gray-300 rounded-lg px-3 py-1.5 text-sm font-mono text-right outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+                <datalist id="memoryflow-time-zones">
+                  {COMMON_TIME_ZONES.map(zone => <option key={zone} value={zone} />)}
+                </datalist>
+              </div>
+            </div>
+            <p className="text-xs text-gray-400">
+              在此时间之前的复习计入前一天。复习记录、日程表和打印计划均按此规则划分日期。
+            </p>
+          </section>
+
+          {/* Daily Limits */}
+          <section className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm space-y-3">
+            <h3 className="text-sm font-bold text-gray-700">每日上限</h3>
+            <LimitInput label="新卡片" value={settings.newPerDay} onChange={(newPerDay) => updateSettings({ newPerDay })} />
+            <LimitInput label="复习" value={settings.reviewsPerDay} onChange={(reviewsPerDay) => updateSettings({ reviewsPerDay })} />
+            <p className="text-xs text-gray-400">
+              按学习日计数，留空表示不限。超出的卡片保持到期，顺延到之后的学习日；科目的调度预设可再设更低的上限。
+            </p>
+          </section>
+
+          {/* Algorithm Version */}
+          <section className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm">
+            <h3 className="text-sm font-bold text-gray-700 mb-3">算法版本</h3>
+            <div className="grid grid-cols-2 gap-2">
+              {VERSIONS.map(({ value, label, hint }) => (
+                <button
+                  key={value}
+                  onClick={() => {
+                    if (value === parameters.version) return;
+                    // Weights are version-specific, so switching starts from that version's defaults
+                    updateParameters({ version: value, w: DEFAULT_WEIGHTS_BY_VERSION[value] });
+                  }}
+                  className={`p-3 rounded-xl border text-left transition-all ${
+                    parameters.version === value
+                      ? 'border-indigo-500 bg-indigo-50 text-indigo-700'
+                      : 'border-gray-200 text-gray-600 hover:border-indigo-300'
+                  }`}
+                >
+                  <div className="text-sm font-bold">{label}</div>
+                  <div className="text-[10px] text-gray-400 mt-0.5">{hint}</div>
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-400 mt-2">
+              切换后将使用该版本的默认权重，并按所选版本重新计算全部复习历史。
+            </p>
+          </section>
+
+          {/* Desired Retention */}
+          <section className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-bold text-gray-700">目标记忆保留率</h3>
+              <span className="text-lg font-mono font-bold text-indigo-600">
+                {(parameters.requestRetention * 100).toFixed(0)}%
+              </span>
+            </div>
+            <input
+              type="range"
+              min={0.7}
+              max={0.99}
+              step={0.01}
+              value={parameters.requestRetention}
+              onChange={(e) => updateParameters({ requestRetention: parseFloat(e.target.value) })}
+              className="w-full accent-indigo-600"
+            />
+            <p className="text-xs text-gray-400 mt-2">
+              保留率越高，复习越频繁。修改后所有节点的到期时间会根据复习历史重新计算。
+            </p>
+          </section>
+
+          {/* Maximum Interval */}
+          <section className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-bold text-gray-700">最大间隔 (天)</h3>
+              <input
+                type="number"
+                min={1}
+                value={parameters.maximumInterval}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value, 10);
+                  if (value >= 1) updateParameters({ maximumInterval: value });
+                }}
+                className="w-28 border border-gray-300 rounded-lg px-3 py-1.5 text-sm font-mono text-right focus:ring-2 focus:ring-indigo-500 outline-none"
+              />
+            </div>
+          </section>
+
+          {/* Learning Steps */}
+          <section className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm space-y-3">
+            <h3 className="text-sm font-bold text-gray-700">学习步骤</h3>
+            <StepsInput
+              label="新卡片"
+              steps={parameters.learningSteps}
+              onChange={(learningSteps) => updateParameters({ learningSteps })}
+            />
+            <StepsInput
+              label="遗忘后重新学习"
+              steps={parameters.relearningSteps}
+              onChange={(relearningSteps) => updateParameters({ relearningSteps })}
+            />
+            <p className="text-xs text-gray-400">
+              以空格分隔，例如 "1m 10m"（m 分钟 / h 小时 / d 天）。留空表示直接进入长期复习。
+            </p>
+          </section>
+
+          {/* Fuzz & Load Balance */}
+          <section className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm space-y-3">
+            <h3 className="text-sm font-bold text-gray-700">到期日分散</h3>
+            <Toggle
+              label="间隔随机化"
+              hint="在理想间隔附近小幅浮动，避免同日复习的卡片再次挤在同一天。"
+              checked={parameters.enableFuzz}
+              onChange={(enableFuzz) => updateParameters({ enableFuzz })}
+            />
+            <Toggle
+              label="负载均衡"
+              hint="在可接受范围内选择复习数量最少的一天。"
+              checked={parameters.enableLoadBalance}
+              onChange={(enableLoadBalance) => updateParameters({ enableLoadBalance })}
+            />
+          </section>
+
+          {/* Burying */}
+          <section className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm space-y-3">
+            <h3 className="text-sm font-bold text-gray-700">搁置同组卡片</h3>
+            <Toggle
+              label="搁置兄弟节点"
+              hint="复习一张卡片后，同一父节点下其他节点的卡片推迟到明天，避免互相提示答案。"
+              checked={settings.burySiblings}
+              onChange={(burySiblings) => updateSettings({ burySiblings })}
+            />
+            <Toggle
+              label="搁置同一节点的其他卡片"
+              hint="填空与反向卡片也在同一天只出现一张。"
+              checked={settings.buryCardSiblings}
+              onChange={(buryCardSiblings) => updateSettings({ buryCardSiblings })}
+            />
+            <p className="text-xs text-gray-400">
+              被搁置的卡片到期时间不变，只是今天不再出现；正在学习步骤中的卡片不会被搁置。
+            </p>
+          </section>
+
+          {/* Leeches */}
+          <section className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm space-y-3">
+            <h3 className="text-sm font-bold text-gray-700">难记卡片</h3>
+            <div className="flex items-center justify-between gap-4">
+              <label className="text-xs font-bold text-gray-600">遗忘次数达到</label>
+              <input
+                type="number"
+                min={1}
+                value={settings.leechLapses}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value, 10);
+                  if (value >= 1) updateSettings({ leechLapses: value });
+                }}
+                className="w-28 border border-gray-300 rounded-lg px-3 py-1.5 text-sm font-mono text-right focus:ring-2 focus:ring-indigo-500 outline-none"
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <label className="text-xs font-bold text-gray-600">且难度 D 不低于</label>
+              <input
+                type="number"
+                min={1}
+                max={10}
+                step={0.5}
+                value={settings.leechDifficulty}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (value >= 1 && value <= 10) updateSettings({ leechDifficulty: value });
+                }}
+                className="w-28 border border-gray-300 rounded-lg px-3 py-1.5 text-sm font-mono text-right focus:ring-2 focus:ring-indigo-500 outline-none"
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {LEECH_ACTIONS.map(({ value, label, hint }) => (
+                <button
+                  key={value}
+                  onClick={() => handleLeechAction(value)}
+                  className={`p-3 rounded-xl border text-left transition-all ${
+                    settings.leechAction === value
+                      ? 'border-indigo-500 bg-indigo-50 text-indigo-700'
+                      : 'border-gray-200 text-gray-600 hover:border-indigo-300'
+                  }`}
+                >
+                  <div className="text-sm font-bold">{label}</div>
+                  <div className="text-[10px] text-gray-400 mt-0.5">{hint}</div>
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-400">
+              遗忘指已进入长期复习的卡片被评为「重来」。卡片在复习中成为难记卡片时执行所选操作，仪表盘会列出全部难记卡片。
+            </p>
+          </section>
+
+          {/* Weights */}
+          <section className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm">
+            <h3 className="text-sm font-bold text-gray-700 mb-2">FSRS 权重 (w0 - w{DEFAULT_PARAMETERS.w.length - 1})</h3>
+            <textarea
+              value={weightsText}
+              onChange={(e) => {
+                setWeightsText(e.target.value);
+                setWeightsError(false);
+              }}
+              rows={4}
+              className={`w-full border rounded-lg px-3 py-2 text-xs font-mono outline-none focus:ring-2 focus:ring-indigo-500 ${
+                weightsError ? 'border-rose-400 bg-rose-50' : 'border-gray-300'
+              }`}
+            />
+            <div className="flex items-center justify-between mt-2">
+              <p className={`text-xs ${weightsError ? 'text-rose-500' : 'text-gray-400'}`}>
+                {weightsError
+                  ? `需要 ${DEFAULT_PARAMETERS.w.length} 个数值，以逗号分隔。`
+                  : '高级选项：仅在了解 FSRS 模型时修改。'}
+              </p>
+              <button
+                onClick={handleApplyWeights}
+                className="flex items-center gap-1 px-3 py-1.5 bg-indigo-600 text-white rounded-lg text-xs font-bold hover:bg-indigo-700 transition-colors"
+              >
+                <Check size={14} />
+                应用
+              </button>
+            </div>
+          </section>
+
+          {/* Optimizer */}
+          <section className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-bold text-gray-700 flex items-center gap-2">
+                <Cpu size={16} className="text-indigo-500" />
+                根据复习历史优化权重
+              </h3>
+              {optimizer.status === 'running' ? (
+                <button
+                  onClick={optimizer.cancel}
+                  className="px-3 py-1.5 text-xs font-bold text-gray-500 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  取消
+                </button>
+              ) : (
+                <button
+                  onClick={() => optimizer.run(nodes, parameters)}
+                  className="px-3 py-1.5 bg-indigo-600 text-white rounded-lg text-xs font-bold hover:bg-indigo-700 transition-colors"
+                >
+                  开始优化
+                </button>
+              )}
+            </div>
+            <p className="text-xs text-gray-400">
+              在本地拟合 FSRS 权重，使预测的记忆保留率与您的实际评分最接近。数据不会离开浏览器。
+            </p>
+
+            {optimizer.status === 'running' && (
+              <div className="mt-4 flex items-center gap-3">
+                <Loader2 size={16} className="animate-spin text-indigo-500" />
+                <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-indigo-500 transition-all" style={{ width: `${optimizer.progress * 100}%` }} />
+                </div>
+                <span className="text-xs font-mono text-gray-500">{(optimizer.progress * 100).toFixed(0)}%</span>
+              </div>
+            )}
+
+            {optimizer.status === 'error' && (
+              <p className="mt-4 text-xs text-rose-500">{optimizer.error}</p>
+            )}
+
+            {optimizer.status === 'done' && optimizer.result && (
+              <div className="mt-4 space-y-3">
+                <div className="grid grid-cols-3 gap-2 text-xs font-mono text-center">
+                  <div />
+                  <div className="text-gray-400">优化前</div>
+                  <div className="text-gray-400">优化后</div>
+                  <div className="text-left text-gray-500">Log Loss</div>
+                  <div>{optimizer.result.before.logLoss.toFixed(4)}</div>
+                  <div className="font-bold text-indigo-600">{optimizer.result.after.logLoss.toFixed(4)}</div>
+                  <div className="text-left text-gray-500">RMSE</div>
+                  <div>{optimizer.result.before.rmse.toFixed(4)}</div>
+                  <div className="font-bold text-indigo-600">{optimizer.result.after.rmse.toFixed(4)}</div>
+                </div>
+                <p className="text-[10px] text-gray-400">基于 {optimizer.result.after.sampleCount} 条复习记录。</p>
+                <button
+                  onClick={() => {
+                    if (optimizer.result) updateParameters({ w: optimizer.result.w });
+                    optimizer.cancel();
+                  }}
+                  className="w-full py-2 bg-indigo-600 text-white rounded-lg text-xs font-bold hover:bg-indigo-700 transition-colors"
+                >
+                  应用新权重
+                </button>
+              </div>
+            )}
+          </section>
+
+          {/* Trash */}
+          <section className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm space-y-3">
+            <h3 className="text-sm font-bold text-gray-700">回收站</h3>
+            <div className="flex items-center justify-between gap-4">
+              <label className="text-xs font-bold text-gray-600">删除的节点保留</label>
+              <select
+                value={settings.trashRetentionDays}
+                onChange={(e) => updateSettings({ trashRetentionDays: parseInt(e.target.value, 10) })}
+                className="w-40 border border-gray-300 rounded-lg px-3 py-1.5 text-sm outline-none focus:ring-2 focus:ring-indigo-500 bg-white"
+              >
+                {TRASH_RETENTION_OPTIONS.map(days => (
+                  <option key={days} value={days}>{days > 0 ? `${days} 天` : '永久'}</option>
+                ))}
+              </select>
+            </div>
+            <p className="text-xs text-gray-400">
+              超过保留期的节点连同复习记录会被彻底删除。
+            </p>
+          </section>
+
+          {/* Backup */}
+          <section className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm">
+            <h3 className="text-sm font-bold text-gray-700 mb-2">数据备份</h3>
+            <p className="text-xs text-gray-400 mb-4">
+              导出为单个文件，包含全部节点、复习记录和附件。
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={handleExportBackup}
+                disabled={backupBusy}
+                className="flex items-center gap-2 px-3 py-1.5 bg-indigo-600 text-white rounded-lg text-xs font-bold hover:bg-indigo-700 transition-colors disabled:opacity-50"
+              >
+                {backupBusy ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />}
+                导出备份
+              </button>
+              <button
+                onClick={() => backupInputRef.current?.click()}
+                disabled={backupBusy}
+                className="flex items-center gap-2 px-3 py-1.5 text-xs font-bold text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+              >
+                <Upload size={14} />
+                导入备份
+              </button>
+              <input
+                ref={backupInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => handleImportBackup(e.target.files?.[0])}
+              />
+            </div>
+          </section>
+
+        </div>
+      </div>
+    </div>
+  );
+}
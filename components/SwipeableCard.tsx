@@ -1,14 +1,23 @@
 
-import React, { useEffect } from 'react';
+import { useState } from 'react';
 import { motion, useMotionValue, useTransform, useAnimation } from 'framer-motion';
 import type { PanInfo } from 'framer-motion';
-import { SkipForward, X, Check, ChevronsUp, AlertTriangle } from 'lucide-react';
-import { Node } from '../types';
+import { SkipForward, X, Check, ChevronsUp, AlertTriangle, Eye } from 'lucide-react';
+import { NodeState, ReviewItem } from '../types';
+import { getCardLabel, getItemFaces } from '../utils/cards';
+import { RichText } from './RichText';
+import { AttachmentList } from './AttachmentList';
 
 export type SwipeDirection = 'left' | 'right' | 'up' | 'down';
 
+const STATE_LABELS: Partial<Record<NodeState, string>> = {
+  new: '新卡片',
+  learning: '学习中',
+  relearning: '重新学习',
+};
+
 interface SwipeableCardProps {
-  data: Node;
+  data: ReviewItem;
   index: number;
   onSwipe: (direction: SwipeDirection) => void;
   onSkip: () => void;
@@ -16,6 +25,10 @@ interface SwipeableCardProps {
 
 export const SwipeableCard = ({ data, index, onSwipe, onSkip }: SwipeableCardProps) => {
   const controls = useAnimation();
+  const faces = getItemFaces(data);
+  const hasAnswer = faces.question !== faces.revealedQuestion || !!faces.back || !!faces.notes;
+  // Cards with an answer start face-down; ratings unlock once revealed
+  const [revealed, setRevealed] = useState(() => !hasAnswer);
   const x = useMotionValue(0);
   const y = useMotionValue(0);
 
@@ -70,12 +83,13 @@ export const SwipeableCard = ({ data, index, onSwipe, onSkip }: SwipeableCardPro
     }
   };
 
-  // Only top card is draggable
+  // Only top card is draggable, and only after the answer has been seen
   const isFront = index === 0;
+  const canRate = isFront && revealed;
 
   return (
     <motion.div
-      drag={isFront ? true : false}
+      drag={canRate}
       dragConstraints={{ left: 0, right: 0, top: 0, bottom: 0 }} // Elastic drag
       dragElastic={0.6} // Rubber band effect
       onDragEnd={handleDragEnd}
@@ -87,10 +101,13 @@ export const SwipeableCard = ({ data, index, onSwipe, onSkip }: SwipeableCardPro
         zIndex: 100 - index,
         width: '100%',
         height: '100%',
-        cursor: isFront ? 'grab' : 'default',
+        cursor: canRate ? 'grab' : isFront ? 'pointer' : 'default',
         position: 'absolute'
       }}
-      whileTap={{ cursor: 'grabbing' }}
+      whileTap={canRate ? { cursor: 'grabbing' } : undefined}
+      onTap={() => {
+        if (isFront && !revealed) setRevealed(true);
+      }}
       className="absolute inset-0 flex items-center justify-center p-4"
     >
       <div className="relative w-full max-w-sm aspect-[3/4] bg-white rounded-3xl shadow-xl border border-gray-100 overflow-hidden flex flex-col select-none">
@@ -140,13 +157,38 @@ export const SwipeableCard = ({ data, index, onSwipe, onSkip }: SwipeableCardPro
         <div className="flex-1 flex flex-col items-center justify-center p-8 text-center bg-gradient-to-br from-white to-gray-50">
            <div className="w-full mb-6">
                 <span className="inline-block px-3 py-1 bg-indigo-50 text-indigo-600 rounded-full text-xs font-bold tracking-wide uppercase">
-                    复习卡片
+                    {STATE_LABELS[data.fsrs.state] ?? '复习卡片'}
+                    {data.cardKey && ` · ${getCardLabel(data)}`}
                 </span>
            </div>
            
-           <h2 className="text-3xl font-bold text-slate-800 leading-snug break-words line-clamp-6">
-             {data.title}
-           </h2>
+           <div className={`font-bold text-slate-800 leading-snug break-words ${revealed && (faces.back || faces.notes) ? 'text-xl line-clamp-3' : 'text-3xl line-clamp-6'}`}>
+             <RichText text={revealed ? faces.revealedQuestion : faces.question} />
+           </div>
+
+           {data.node.attachments && (
+               <div className="w-full mt-4">
+                   <AttachmentList attachments={data.node.attachments} size="large" />
+               </div>
+           )}
+
+           {revealed && (faces.back || faces.notes) && (
+               <div className="w-full mt-6 pt-6 border-t border-dashed border-gray-200 overflow-y-auto animate-in fade-in duration-200">
+                   {faces.back && (
+                       <RichText text={faces.back} className="text-lg text-slate-700 break-words" />
+                   )}
+                   {faces.notes && (
+                       <RichText text={faces.notes} className="mt-4 text-xs text-gray-400 text-left break-words" />
+                   )}
+               </div>
+           )}
+
+           {!revealed && (
+               <div className="mt-8 flex items-center gap-2 text-sm text-indigo-500 font-medium">
+                   <Eye size={16} />
+                   <span>点击显示答案</span>
+               </div>
+           )}
 
            <div className="mt-8 text-xs text-gray-400 font-mono">
                上一次复习: {data.fsrs.lastReview ? new Date(data.fsrs.lastReview).toLocaleDateString() : '从未'}
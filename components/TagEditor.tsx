@@ -0,0 +1,48 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { Node } from '../types';
+import { useTreeContext } from '../hooks/useTree';
+import { getInheritedTags } from '../utils/treeUtils';
+
+/** Edits a node's own tags; tags inherited from ancestors are listed read-only. */
+export const TagEditor = ({ node }: { node: Node }) => {
+  const { nodes, addTag, removeTag } = useTreeContext();
+  const [text, setText] = useState('');
+  const own = node.tags ?? [];
+  const inherited = getInheritedTags(nodes, node.id).filter(tag => !own.includes(tag));
+
+  const handleAdd = () => {
+    if (!text.trim()) return;
+    addTag([node.id], text);
+    setText('');
+  };
+
+  return (
+    <div className="flex items-center gap-1 flex-wrap">
+      {own.map(tag => (
+        <span key={tag} className="flex items-center gap-0.5 text-xs text-violet-600 bg-violet-50 pl-1.5 pr-0.5 py-0.5 rounded">
+          #{tag}
+          <button onClick={() => removeTag([node.id], tag)} className="p-0.5 rounded hover:bg-violet-100" title="移除标签">
+            <X size={10} />
+          </button>
+        </span>
+      ))}
+      {inherited.map(tag => (
+        <span key={tag} className="text-xs text-violet-300 border border-dashed border-violet-200 px-1.5 py-0.5 rounded" title="继承自上级节点">
+          #{tag}
+        </span>
+      ))}
+      <input
+        type="text"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') handleAdd();
+        }}
+        onBlur={handleAdd}
+        placeholder="+ 标签"
+        className="w-20 text-xs bg-transparent border-b border-transparent focus:border-indigo-300 outline-none py-0.5"
+      />
+    </div>
+  );
+};
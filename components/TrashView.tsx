@@ -0,0 +1,138 @@
+import { useMemo, useState } from 'react';
+import { Trash2, RotateCcw, XCircle, CornerDownRight } from 'lucide-react';
+import { Node } from '../types';
+import { useTreeContext } from '../hooks/useTree';
+import { getDaysUntilPurge, getTrashRoots, isTrashed } from '../utils/trash';
+import { OutlineEntry, getOutline, getPathTitles, getSubtreeIds } from '../utils/treeUtils';
+import { getNodeItems } from '../utils/cards';
+import { isReviewLog } from '../fsrs';
+import { RichText } from './RichText';
+
+const TrashItem = ({ node, targets }: { node: Node; targets: OutlineEntry[] }) => {
+  const { nodes, settings, restoreNode, purgeNode } = useTreeContext();
+  const [isPicking, setIsPicking] = useState(false);
+
+  const subtreeIds = getSubtreeIds(nodes, node.id);
+  const reviewCount = subtreeIds
+    .flatMap(id => getNodeItems(nodes[id]))
+    .reduce((sum, item) => sum + item.logs.filter(isReviewLog).length, 0);
+  const path = getPathTitles(nodes, node.parentId);
+  const canRestoreInPlace = !!node.parentId && !!nodes[node.parentId] && !isTrashed(nodes, node.parentId);
+  const daysLeft = getDaysUntilPurge(node, settings.trashRetentionDays, Date.now());
+
+  return (
+    <div className="bg-white p-4 rounded-2xl border border-gray-100 shadow-sm">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <div className="font-bold text-gray-800 truncate">
+            <RichText text={node.title} inline />
+          </div>
+          <div className="text-xs text-gray-400 mt-1 truncate">
+            原位置：{path.length > 0 ? path.join(' / ') : canRestoreInPlace ? '顶层科目' : '已不存在'}
+          </div>
+          <div className="text-[10px] text-gray-400 mt-1 flex flex-wrap gap-x-3">
+            <span>删除于 {new Date(node.trashedAt!).toLocaleString()}</span>
+            <span>{subtreeIds.length} 个节点 · {reviewCount} 条复习记录</span>
+            {daysLeft !== null && <span className="text-rose-400">{daysLeft} 天后自动清除</span>}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-1 shrink-0">
+          {canRestoreInPlace && (
+            <button
+              onClick={() => restoreNode(node.id)}
+              className="flex items-center gap-1 px-2.5 py-1.5 text-xs font-bold text-indigo-600 bg-indigo-50 rounded-lg hover:bg-indigo-100 transition-colors"
+              title="恢复到原位置"
+            >
+              <RotateCcw size={14} />
+              <span className="hidden sm:inline">恢复</span>
+            </button>
+          )}
+          <button
+            onClick={() => setIsPicking(!isPicking)}
+            className="flex items-center gap-1 px-2.5 py-1.5 text-xs font-bold text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            title="恢复到其他位置"
+          >
+            <CornerDownRight size={14} />
+            <span className="hidden sm:inline">恢复到…</span>
+          </button>
+          <button
+            onClick={() => {
+              if (confirm(`彻底删除「${node.title}」及其全部复习记录？`)) purgeNode(node.id);
+            }}
+            className="p-1.5 text-rose-400 hover:text-rose-600 hover:bg-rose-50 rounded-lg transition-colors"
+            title="彻底删除"
+          >
+            <XCircle size={16} />
+          </button>
+        </div>
+      </div>
+
+      {isPicking && (
+        <select
+          autoFocus
+          defaultValue=""
+          onChange={(e) => {
+            if (!e.target.value) return;
+            restoreNode(node.id, e.target.value);
+            setIsPicking(false);
+          }}
+          className="mt-3 w-full border border-gray-300 rounded-lg px-3 py-1.5 text-sm outline-none focus:ring-2 focus:ring-indigo-500 bg-white"
+        >
+          <option value="" disabled>选择新的父节点…</option>
+          {targets.map(target => (
+            <option key={target.id} value={target.id}>
+              {'　'.repeat(target.depth)}{target.title}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+};
+
+export const TrashView = () => {
+  const { nodes, settings, emptyTrash } = useTreeContext();
+  const trashRoots = useMemo(() => getTrashRoots(nodes), [nodes]);
+  const targets = useMemo(() => getOutline(nodes), [nodes]);
+
+  return (
+    <div className="flex flex-col h-full bg-gray-50">
+      {/* Header */}
+      <div className="flex-shrink-0 h-16 border-b border-gray-200 flex items-center justify-between px-4 md:px-8 bg-white sticky top-0 z-10">
+        <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+          <Trash2 className="text-indigo-500" size={24} />
+          回收站
+        </h2>
+        {trashRoots.length > 0 && (
+          <button
+            onClick={() => {
+              if (confirm('清空回收站会永久删除其中的所有节点和复习记录，确定继续吗？')) emptyTrash();
+            }}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium rounded-lg text-rose-500 hover:text-rose-700 hover:bg-rose-50 transition-all"
+          >
+            <XCircle size={14} />
+            清空
+          </button>
+        )}
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto p-4 md:p-8 custom-scrollbar">
+        <div className="max-w-2xl mx-auto space-y-3 pb-24">
+          <p className="text-xs text-gray-400 px-1">
+            {settings.trashRetentionDays > 0
+              ? `删除的节点保留 ${settings.trashRetentionDays} 天（可在设置中修改），期间不参与复习、日程和打印计划。`
+              : '删除的节点会一直保留（可在设置中修改），期间不参与复习、日程和打印计划。'}
+          </p>
+
+          {trashRoots.length === 0 ? (
+            <div className="py-20 text-center text-sm text-gray-400">回收站是空的</div>
+          ) : (
+            trashRoots.map(node => <TrashItem key={node.id} node={node} targets={targets} />)
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,52 +1,136 @@
 
-import React, { useState, useEffect, useRef, useContext } from 'react';
-import { LayoutList, GitGraph, ChevronDown } from 'lucide-react';
+import React, { useState, useEffect, useLayoutEffect, useRef, useContext, useCallback, useMemo } from 'react';
+import { LayoutList, GitGraph, ChevronDown, SlidersHorizontal, Undo2, Redo2, Tag, X, Link2 } from 'lucide-react';
 import { useTreeContext, TreeVisualContext } from '../hooks/useTree';
-import { NodeItem } from './TreeNode';
+import { NodeItem, getDropPosition } from './TreeNode';
 import { Toolbar } from './Toolbar';
-import { NodeMap } from '../types';
+import { PresetModal } from './PresetModal';
+import { BulkActionBar } from './BulkActionBar';
+import { RichText } from './RichText';
+import { getCardShortLabel, getNodeItems, hasMultipleCards, renderCloze } from '../utils/cards';
+import { isTrashed } from '../utils/trash';
+import { canMoveNode, getInheritedTags, getSubtreeIds } from '../utils/treeUtils';
+import { DropPosition, NodeMap } from '../types';
 
 interface RecursiveTreeViewProps {
   rootId: string;
   onSubjectChange?: (id: string) => void;
+  focusId?: string | null; // Node to select and scroll to, e.g. a search result
+  onFocused?: () => void;
 }
 
-export function RecursiveTreeView({ rootId, onSubjectChange }: RecursiveTreeViewProps) {
-  const { nodes, addNode, toggleExpand, updateNodeTitle } = useTreeContext();
+export function RecursiveTreeView({ rootId, onSubjectChange, focusId, onFocused }: RecursiveTreeViewProps) {
+  const { nodes, backlinks, addNode, toggleExpand, updateNodeTitle, moveNode, undo, redo, canUndo, canRedo, lastChange, nextChange } = useTreeContext();
   const rootNode = nodes[rootId];
   const [inputValue, setInputValue] = useState("");
   const [viewMode, setViewMode] = useState<'list' | 'map'>('list');
+  const [showPreset, setShowPreset] = useState(false);
+  const [showLinks, setShowLinks] = useState(false);
+  const mapRef = useRef<HTMLDivElement>(null);
   
   // Shared Visual State for both List and Map
   const [selectedId, setSelectedId] = useState<string | null>(null);
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const selectionAnchor = useRef<string | null>(null);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+
+  // Every tag used in this subject, for the filter picker
+  const subjectTags = useMemo(() => {
+    const tags = new Set<string>();
+    getSubtreeIds(nodes, rootId).forEach(id => nodes[id].tags?.forEach(tag => tags.add(tag)));
+    return [...tags].sort();
+  }, [nodes, rootId]);
+
+  const visibleIds = useMemo(() => (tagFilter ? getTagMatches(nodes, rootId, tagFilter) : null), [nodes, rootId, tagFilter]);
+
+  const selectNode = useCallback((id: string, modifiers: { shift?: boolean; toggle?: boolean } = {}) => {
+    if (modifiers.shift) {
+      // Ranges follow what is on screen: the expanded outline in either view
+      const order = getVisibleIds(nodes, rootId, visibleIds);
+      const anchor = selectionAnchor.current ?? selectedId ?? id;
+      const from = order.indexOf(anchor);
+      const to = order.indexOf(id);
+      if (from !== -1 && to !== -1) {
+        setSelectedIds(new Set(order.slice(Math.min(from, to), Math.max(from, to) + 1)));
+        selectionAnchor.current = anchor;
+      }
+    } else if (modifiers.toggle) {
+      const next = new Set(selectedIds.size > 0 ? selectedIds : selectedId ? [selectedId] : []);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      setSelectedIds(next);
+      selectionAnchor.current = id;
+    } else {
+      setSelectedIds(new Set());
+      selectionAnchor.current = id;
+    }
+    setSelectedId(id);
+  }, [nodes, rootId, selectedId, selectedIds, visibleIds]);
+
+  const clearSelection = useCallback(() => setSelectedIds(new Set()), []);
+
+  // Deleted or moved-away nodes drop out of the bulk selection
+  const bulkIds = [...selectedIds].filter(id => nodes[id] && !isTrashed(nodes, id));
+
+  // Tags are per subject
+  useEffect(() => setTagFilter(null), [rootId]);
 
-  // Initialize selection on root when loading
+  // Initialize selection on root when loading (or when the selected node was deleted or undone)
   useEffect(() => {
-    if (!selectedId) {
+    if (!selectedId || !nodes[selectedId] || isTrashed(nodes, selectedId)) {
       setSelectedId(rootId);
     }
-  }, [rootId, selectedId]);
+  }, [rootId, selectedId, nodes]);
+
+  // Ancestors are expanded by the caller; wait a frame for the row to render
+  useEffect(() => {
+    if (!focusId || !nodes[focusId]) return;
+    setSelectedId(focusId);
+    setSelectedIds(new Set());
+    selectionAnchor.current = focusId;
+    onFocused?.();
+    requestAnimationFrame(() => {
+      document.querySelector(`[data-node-id="${focusId}"]`)?.scrollIntoView({ block: 'center', inline: 'center' });
+    });
+  }, [focusId]);
 
   // ----------------------------------------------------------------
   // KEYBOARD SHORTCUTS HANDLER
   // ----------------------------------------------------------------
   useEffect(() => {
+    // Tab / Shift+Tab, in both views and while editing; Ctrl+Enter adds a child
+    // Indent: become the last child of the previous sibling
+    // Outdent: move out to just below the parent, but not above the subject
+    const indent = (id: string, outdent: boolean) => {
+      const node = nodes[id];
+      if (!node || node.id === rootId || !node.parentId) return;
+      const siblings = nodes[node.parentId].children;
+      if (!outdent) {
+        const prevSiblingId = siblings[siblings.indexOf(node.id) - 1];
+        if (prevSiblingId) moveNode(node.id, prevSiblingId, 'inside');
+      } else if (node.parentId !== rootId) {
+        moveNode(node.id, node.parentId, 'bottom');
+      }
+    };
+    const addChild = (parentId: string) => {
+      const newId = addNode(parentId, "新节点", 'plan');
+      setSelectedId(newId);
+      setEditingId(newId);
+    };
+
     const handleKeyDown = (e: KeyboardEvent) => {
       // 1. Handle actions while editing
       if (editingId) {
         if (e.key === 'Enter') {
            e.preventDefault();
            setEditingId(null);
+           if ((e.ctrlKey || e.metaKey) && selectedId) addChild(selectedId);
            return;
         } else if (e.key === 'Tab') {
            e.preventDefault();
            setEditingId(null);
-           if (selectedId) {
-             const newId = addNode(selectedId, "新节点", 'plan');
-             setSelectedId(newId);
-             setEditingId(newId);
-           }
+           if (selectedId) indent(selectedId, e.shiftKey);
            return;
         } else if (e.key === 'Escape') {
            setEditingId(null);
@@ -59,19 +143,41 @@ export function RecursiveTreeView({ rootId, onSubjectChange }: RecursiveTreeView
         return;
       }
 
+      // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), plus Ctrl+Y for redo
+      if (e.ctrlKey || e.metaKey) {
+        const key = e.key.toLowerCase();
+        if (key === 'z') {
+          e.preventDefault();
+          if (e.shiftKey) redo();
+          else undo();
+          return;
+        }
+        if (key === 'y') {
+          e.preventDefault();
+          redo();
+          return;
+        }
+      }
+
       const current = selectedId ? nodes[selectedId] : null;
+      // Shift+arrows extend the selection instead of moving it
+      const go = (id: string) => selectNode(id, { shift: e.shiftKey });
 
       switch (e.key) {
+        case 'Escape':
+          clearSelection();
+          break;
+
         case 'ArrowLeft':
           e.preventDefault();
           if (viewMode === 'map') {
-            if (current && current.parentId) setSelectedId(current.parentId);
+            if (current && current.parentId) go(current.parentId);
           } else {
             if (current) {
                 if (current.isExpanded && current.children.length > 0) {
                     toggleExpand(current.id);
                 } else if (current.parentId && current.parentId !== 'root' && current.id !== rootId) {
-                    setSelectedId(current.parentId);
+                    go(current.parentId);
                 }
             }
           }
@@ -82,7 +188,7 @@ export function RecursiveTreeView({ rootId, onSubjectChange }: RecursiveTreeView
           if (current) {
             if (viewMode === 'map') {
                 if (current.isExpanded && current.children.length > 0) {
-                   setSelectedId(current.children[0]);
+                   go(current.children[0]);
                 } else if (!current.isExpanded && current.children.length > 0) {
                    toggleExpand(current.id);
                 }
@@ -101,13 +207,13 @@ export function RecursiveTreeView({ rootId, onSubjectChange }: RecursiveTreeView
                 const siblings = nodes[current.parentId].children;
                 const idx = siblings.indexOf(current.id);
                 if (idx !== -1 && idx < siblings.length - 1) {
-                   setSelectedId(siblings[idx + 1]);
+                   go(siblings[idx + 1]);
                 }
              }
           } else {
              if (selectedId) {
-                 const nextId = getNextVisibleId(selectedId, nodes, rootId);
-                 if (nextId) setSelectedId(nextId);
+                 const nextId = getNextVisibleId(selectedId, nodes, rootId, visibleIds);
+                 if (nextId) go(nextId);
              }
           }
           break;
@@ -119,20 +225,22 @@ export function RecursiveTreeView({ rootId, onSubjectChange }: RecursiveTreeView
                 const siblings = nodes[current.parentId].children;
                 const idx = siblings.indexOf(current.id);
                 if (idx > 0) {
-                   setSelectedId(siblings[idx - 1]);
+                   go(siblings[idx - 1]);
                 }
              }
           } else {
               if (selectedId) {
-                 const prevId = getPrevVisibleId(selectedId, nodes, rootId);
-                 if (prevId) setSelectedId(prevId);
+                 const prevId = getPrevVisibleId(selectedId, nodes, rootId, visibleIds);
+                 if (prevId) go(prevId);
               }
           }
           break;
 
         case 'Enter': 
           e.preventDefault();
-          if (current && current.parentId) {
+          if (current && (e.ctrlKey || e.metaKey)) {
+             addChild(current.id);
+          } else if (current && current.parentId) {
              const newId = addNode(current.parentId, "新节点", 'plan');
              setSelectedId(newId);
              setEditingId(newId);
@@ -141,11 +249,7 @@ export function RecursiveTreeView({ rootId, onSubjectChange }: RecursiveTreeView
           
         case 'Tab': 
           e.preventDefault();
-          if (selectedId) {
-             const newId = addNode(selectedId, "新节点", 'plan');
-             setSelectedId(newId);
-             setEditingId(newId);
-          }
+          if (selectedId) indent(selectedId, e.shiftKey);
           break;
 
         case ' ': 
@@ -159,7 +263,7 @@ export function RecursiveTreeView({ rootId, onSubjectChange }: RecursiveTreeView
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [viewMode, selectedId, editingId, nodes, addNode, toggleExpand, rootId]);
+  }, [viewMode, selectedId, editingId, nodes, addNode, toggleExpand, moveNode, undo, redo, rootId, selectNode, clearSelection, visibleIds]);
 
 
   if (!rootNode) return null;
@@ -173,7 +277,7 @@ export function RecursiveTreeView({ rootId, onSubjectChange }: RecursiveTreeView
   const rootSubjects = nodes['root']?.children.map(id => nodes[id]) || [];
 
   return (
-    <TreeVisualContext.Provider value={{ selectedId, setSelectedId, editingId, setEditingId }}>
+    <TreeVisualContext.Provider value={{ selectedId, setSelectedId, selectedIds, selectNode, editingId, setEditingId, visibleIds, setTagFilter }}>
         {/* Full height flex container */}
         <div className="flex flex-col h-full bg-white">
         
@@ -204,6 +308,64 @@ export function RecursiveTreeView({ rootId, onSubjectChange }: RecursiveTreeView
             )}
 
             <div className="flex items-center gap-1 shrink-0">
+            {(subjectTags.length > 0 || tagFilter) && (
+                <div className={`flex items-center gap-1 px-2 py-1.5 rounded-lg text-xs font-medium ${tagFilter ? 'bg-violet-50 text-violet-600' : 'text-gray-500'}`}>
+                    <Tag size={14} />
+                    <select
+                        value={tagFilter ?? ''}
+                        onChange={(e) => setTagFilter(e.target.value || null)}
+                        className="bg-transparent outline-none cursor-pointer max-w-[6rem] truncate"
+                        title="按标签筛选"
+                    >
+                        <option value="">全部</option>
+                        {subjectTags.map(tag => (
+                            <option key={tag} value={tag}>#{tag}</option>
+                        ))}
+                    </select>
+                    {tagFilter && (
+                        <button onClick={() => setTagFilter(null)} className="p-0.5 rounded hover:bg-violet-100" title="清除标签筛选">
+                            <X size={12} />
+                        </button>
+                    )}
+                </div>
+            )}
+            <button
+                onClick={undo}
+                disabled={!canUndo}
+                className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                title={lastChange ? `撤销：${lastChange.label} (Ctrl+Z)` : '撤销'}
+            >
+                <Undo2 size={16} />
+            </button>
+            <button
+                onClick={redo}
+                disabled={!canRedo}
+                className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                title={nextChange ? `重做：${nextChange.label} (Ctrl+Shift+Z)` : '重做'}
+            >
+                <Redo2 size={16} />
+            </button>
+            <button
+                onClick={() => setShowPreset(true)}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+                rootNode.preset
+                    ? 'text-indigo-600 hover:bg-indigo-50' 
+                    : 'text-gray-500 hover:bg-gray-100'
+                }`}
+                title="科目调度预设"
+            >
+                <SlidersHorizontal size={16} />
+                <span className="hidden sm:inline whitespace-nowrap">预设</span>
+            </button>
+            {viewMode === 'map' && (
+                <button
+                    onClick={() => setShowLinks(!showLinks)}
+                    className={`p-1.5 rounded-lg transition-colors ${showLinks ? 'bg-violet-50 text-violet-600' : 'text-gray-500 hover:bg-gray-100'}`}
+                    title={showLinks ? '隐藏关联线' : '显示 [[链接]] 关联线'}
+                >
+                    <Link2 size={16} />
+                </button>
+            )}
             <button
                 onClick={() => setViewMode('list')}
                 className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
@@ -231,6 +393,10 @@ export function RecursiveTreeView({ rootId, onSubjectChange }: RecursiveTreeView
             </div>
         </div>
 
+        {bulkIds.length > 1 && (
+            <BulkActionBar ids={bulkIds} onClear={clearSelection} />
+        )}
+
         {/* Content Area */}
         {viewMode === 'list' ? (
             <div 
@@ -249,15 +415,21 @@ export function RecursiveTreeView({ rootId, onSubjectChange }: RecursiveTreeView
             <div className="flex-1 overflow-auto bg-slate-50 relative cursor-grab active:cursor-grabbing outline-none" tabIndex={0}>
                 {/* Keyboard Hints */}
                 <div className="absolute top-4 left-4 z-20 pointer-events-none opacity-40 hover:opacity-100 transition-opacity text-[10px] text-gray-500 space-y-1 bg-white/50 p-2 rounded backdrop-blur-sm hidden md:block">
-                    <p><kbd className="bg-white border rounded px-1 shadow-sm font-mono">Tab</kbd> 添加子节点</p>
+                    <p><kbd className="bg-white border rounded px-1 shadow-sm font-mono">Ctrl+Enter</kbd> 添加子节点</p>
                     <p><kbd className="bg-white border rounded px-1 shadow-sm font-mono">Enter</kbd> 添加兄弟节点</p>
+                    <p><kbd className="bg-white border rounded px-1 shadow-sm font-mono">Tab</kbd> / <kbd className="bg-white border rounded px-1 shadow-sm font-mono">Shift+Tab</kbd> 缩进 / 取消缩进</p>
                 </div>
-                <div className="min-w-max min-h-full p-20 flex items-center justify-start">
+                <div ref={mapRef} className="min-w-max min-h-full p-20 flex items-center justify-start relative isolate">
                    <MindMapNode nodeId={rootId} isRoot />
+                   {showLinks && <CrossLinkLayer containerRef={mapRef} nodes={nodes} backlinks={backlinks} />}
                 </div>
             </div>
         )}
 
+        {showPreset && (
+            <PresetModal node={rootNode} onClose={() => setShowPreset(false)} />
+        )}
+
         {/* Bottom Input Toolbar */}
         <Toolbar 
             rootTitle={rootNode.title}
@@ -274,47 +446,96 @@ export function RecursiveTreeView({ rootId, onSubjectChange }: RecursiveTreeView
 // LIST VIEW HELPERS
 // ---------------------------------------------
 
-const getNextVisibleId = (currentId: string, nodes: NodeMap, rootId: string): string | null => {
-  const node = nodes[currentId];
-  if (!node) return null;
-  if (node.isExpanded && node.children.length > 0) {
-    return node.children[0];
-  }
-  let curr = node;
-  while (curr.id !== rootId && curr.parentId) {
-    const parent = nodes[curr.parentId];
-    const idx = parent.children.indexOf(curr.id);
-    if (idx !== -1 && idx < parent.children.length - 1) {
-      return parent.children[idx + 1];
+// Nodes tagged with tag (directly or through an ancestor) plus the path down to them
+const getTagMatches = (nodes: NodeMap, rootId: string, tag: string): Set<string> => {
+  const visible = new Set<string>([rootId]);
+  getSubtreeIds(nodes, rootId).forEach(id => {
+    if (!getInheritedTags(nodes, id).includes(tag)) return;
+    let curr: string | null = id;
+    while (curr && !visible.has(curr)) {
+      visible.add(curr);
+      curr = nodes[curr].parentId;
     }
-    curr = parent;
-  }
-  return null;
+  });
+  return visible;
 };
 
-const getPrevVisibleId = (currentId: string, nodes: NodeMap, rootId: string): string | null => {
-    if (currentId === rootId) return null;
-    const node = nodes[currentId];
-    if (!node || !node.parentId) return null;
-  
-    const parent = nodes[node.parentId];
-    const idx = parent.children.indexOf(currentId);
-  
-    if (idx === 0) {
-      return parent.id;
-    }
-  
-    let curr = nodes[parent.children[idx - 1]];
-    while (curr.isExpanded && curr.children.length > 0) {
-      curr = nodes[curr.children[curr.children.length - 1]];
-    }
-    return curr.id;
+// The expanded outline under rootId in display order (root included).
+// Under a tag filter every matching branch is shown open.
+const getVisibleIds = (nodes: NodeMap, rootId: string, filter: Set<string> | null = null): string[] => {
+  const ids: string[] = [];
+  const visit = (id: string) => {
+    const node = nodes[id];
+    if (!node || (filter && !filter.has(id))) return;
+    ids.push(id);
+    if (node.isExpanded || filter || id === rootId) node.children.forEach(visit);
   };
+  visit(rootId);
+  return ids;
+};
+
+const getNextVisibleId = (currentId: string, nodes: NodeMap, rootId: string, filter: Set<string> | null): string | null => {
+  const order = getVisibleIds(nodes, rootId, filter);
+  const idx = order.indexOf(currentId);
+  return idx !== -1 && idx < order.length - 1 ? order[idx + 1] : null;
+};
+
+const getPrevVisibleId = (currentId: string, nodes: NodeMap, rootId: string, filter: Set<string> | null): string | null => {
+  const order = getVisibleIds(nodes, rootId, filter);
+  const idx = order.indexOf(currentId);
+  return idx > 0 ? order[idx - 1] : null;
+};
 
 // ---------------------------------------------
 // MIND MAP COMPONENTS
 // ---------------------------------------------
 
+// [[link]] edges between nodes that are currently drawn, measured from the rendered map.
+// The layer sits behind the node cards so edges end at their borders.
+const CrossLinkLayer = ({ containerRef, nodes, backlinks }: {
+  containerRef: React.RefObject<HTMLDivElement>;
+  nodes: NodeMap;
+  backlinks: Record<string, string[]>;
+}) => {
+  const [paths, setPaths] = useState<{ key: string; d: string }[]>([]);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const origin = container.getBoundingClientRect();
+    const centerOf = (id: string) => {
+      const el = container.querySelector(`[data-node-id="${id}"]`);
+      if (!el) return null;
+      const rect = el.getBoundingClientRect();
+      return { x: rect.left - origin.left + rect.width / 2, y: rect.top - origin.top + rect.height / 2 };
+    };
+
+    const next: { key: string; d: string }[] = [];
+    Object.entries(backlinks).forEach(([targetId, sourceIds]) => {
+      const to = centerOf(targetId);
+      if (!to) return;
+      sourceIds.forEach(sourceId => {
+        const from = centerOf(sourceId);
+        if (!from) return;
+        const bend = Math.max(60, Math.abs(to.y - from.y) / 2);
+        next.push({
+          key: `${sourceId}->${targetId}`,
+          d: `M ${from.x} ${from.y} C ${from.x + bend} ${from.y}, ${to.x + bend} ${to.y}, ${to.x} ${to.y}`,
+        });
+      });
+    });
+    setPaths(next);
+  }, [containerRef, nodes, backlinks]);
+
+  return (
+    <svg className="absolute inset-0 w-full h-full pointer-events-none overflow-visible" style={{ zIndex: -1 }}>
+      {paths.map(path => (
+        <path key={path.key} d={path.d} fill="none" stroke="rgb(167 139 250)" strokeWidth={1.5} strokeDasharray="5 4" />
+      ))}
+    </svg>
+  );
+};
+
 interface MindMapNodeProps {
   nodeId: string;
   isRoot?: boolean;
@@ -323,10 +544,11 @@ interface MindMapNodeProps {
 }
 
 const MindMapNode: React.FC<MindMapNodeProps> = ({ nodeId, isRoot = false, index = 0, total = 1 }) => {
-  const { nodes, toggleExpand, updateNodeTitle } = useTreeContext();
+  const { nodes, toggleExpand, updateNodeTitle, moveNode, draggingId, setDraggingId } = useTreeContext();
   const mapState = useContext(TreeVisualContext);
   const node = nodes[nodeId];
   const inputRef = useRef<HTMLInputElement>(null);
+  const [dropPosition, setDropPosition] = useState<DropPosition | null>(null);
 
   useEffect(() => {
     if (mapState?.editingId === nodeId && inputRef.current) {
@@ -337,19 +559,25 @@ const MindMapNode: React.FC<MindMapNodeProps> = ({ nodeId, isRoot = false, index
 
   if (!node) return null;
 
-  const hasChildren = node.children && node.children.length > 0;
-  const isExpanded = node.isExpanded;
-  const isSelected = mapState?.selectedId === nodeId;
+  // A tag filter shows only the matching branches, all of them open
+  const children = mapState?.visibleIds ? node.children.filter(id => mapState.visibleIds!.has(id)) : node.children;
+  const hasChildren = children.length > 0;
+  const isExpanded = node.isExpanded || !!mapState?.visibleIds;
+  const isSelected = mapState?.selectedId === nodeId || !!mapState?.selectedIds.has(nodeId);
   const isEditing = mapState?.editingId === nodeId;
   
   const isFirst = index === 0;
   const isLast = index === total - 1;
   const isOnly = total === 1;
 
+  // A node with several cards is due as soon as any of them is
+  const items = getNodeItems(node);
+  const isMultiCard = hasMultipleCards(items);
+
   let statusClasses = "border-gray-200 bg-white text-slate-700";
   if (node.fsrs.state === 'suspended') statusClasses = "border-dashed border-gray-300 bg-gray-50 text-gray-400";
-  else if (node.fsrs.due < Date.now()) statusClasses = "border-rose-200 bg-rose-50 text-rose-900 font-medium";
-  else if (node.fsrs.s > 0) statusClasses = "border-emerald-200 bg-emerald-50 text-emerald-900";
+  else if (items.some(item => item.fsrs.due < Date.now())) statusClasses = "border-rose-200 bg-rose-50 text-rose-900 font-medium";
+  else if (items.some(item => item.fsrs.s > 0)) statusClasses = "border-emerald-200 bg-emerald-50 text-emerald-900";
   
   if (isRoot) statusClasses = "border-indigo-500 bg-indigo-600 text-white shadow-lg shadow-indigo-200";
 
@@ -361,6 +589,41 @@ const MindMapNode: React.FC<MindMapNodeProps> = ({ nodeId, isRoot = false, index
     if (mapState) mapState.setEditingId(null);
   };
 
+  // Same drop bands as the list view; the map root only accepts children
+  const handleDragOver = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (!draggingId || draggingId === nodeId) return;
+
+    const position = getDropPosition(e, !isRoot);
+    if (!canMoveNode(nodes, draggingId, nodeId, position)) {
+      e.dataTransfer.dropEffect = 'none';
+      setDropPosition(null);
+      return;
+    }
+    e.dataTransfer.dropEffect = 'move';
+    setDropPosition(position);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDropPosition(null);
+    setDraggingId(null);
+    const sourceId = e.dataTransfer.getData('text/plain');
+    if (sourceId && sourceId !== nodeId && dropPosition) {
+      moveNode(sourceId, nodeId, dropPosition);
+    }
+  };
+
+  const dropClass = dropPosition === 'inside'
+    ? 'ring-2 ring-indigo-400 ring-offset-2'
+    : dropPosition === 'top'
+    ? 'shadow-[0_-3px_0_0_rgba(99,102,241,1)]'
+    : dropPosition === 'bottom'
+    ? 'shadow-[0_3px_0_0_rgba(99,102,241,1)]'
+    : '';
+
   return (
     <div className="flex items-center">
       {!isRoot && (
@@ -370,18 +633,36 @@ const MindMapNode: React.FC<MindMapNodeProps> = ({ nodeId, isRoot = false, index
       )}
 
       <div 
+        data-node-id={nodeId}
         onClick={(e) => {
           e.stopPropagation();
-          mapState?.setSelectedId(nodeId);
+          mapState?.selectNode(nodeId, { shift: e.shiftKey, toggle: e.ctrlKey || e.metaKey });
         }}
         onDoubleClick={(e) => {
           e.stopPropagation();
           mapState?.setEditingId(nodeId);
         }}
+        draggable={!isRoot && !isEditing}
+        onDragStart={(e) => {
+          e.stopPropagation();
+          e.dataTransfer.setData('text/plain', nodeId);
+          e.dataTransfer.effectAllowed = 'move';
+          setDraggingId(nodeId);
+          mapState?.setSelectedId(nodeId);
+        }}
+        onDragEnd={() => {
+          setDraggingId(null);
+          setDropPosition(null);
+        }}
+        onDragOver={handleDragOver}
+        onDragLeave={() => setDropPosition(null)}
+        onDrop={handleDrop}
         className={`
           group relative flex items-center gap-2 px-4 py-2.5 rounded-xl border transition-all cursor-pointer min-w-[100px]
           ${statusClasses}
           ${selectionClass}
+          ${dropClass}
+          ${draggingId === nodeId ? 'opacity-30' : ''}
         `}
       >
         {isEditing ? (
@@ -395,7 +676,7 @@ const MindMapNode: React.FC<MindMapNodeProps> = ({ nodeId, isRoot = false, index
             onClick={(e) => e.stopPropagation()}
           />
         ) : (
-          <span className="whitespace-nowrap text-sm">{node.title}</span>
+          <span className="whitespace-nowrap text-sm"><RichText text={renderCloze(node.title)} inline /></span>
         )}
         
         {hasChildren && (
@@ -417,7 +698,9 @@ const MindMapNode: React.FC<MindMapNodeProps> = ({ nodeId, isRoot = false, index
 
         {!isRoot && !isEditing && node.fsrs.state !== 'suspended' && (
            <div className="opacity-0 group-hover:opacity-100 transition-opacity absolute -top-8 left-1/2 -translate-x-1/2 bg-gray-800 text-white text-[10px] px-2 py-1 rounded shadow-lg whitespace-nowrap z-30 pointer-events-none">
-              S:{node.fsrs.s.toFixed(1)} D:{node.fsrs.d.toFixed(1)}
+              {isMultiCard
+                ? items.map(item => `${getCardShortLabel(item)} S:${item.fsrs.s.toFixed(1)}`).join('  ')
+                : `S:${node.fsrs.s.toFixed(1)} D:${node.fsrs.d.toFixed(1)}`}
               <div className="absolute bottom-[-4px] left-1/2 -translate-x-1/2 border-l-4 border-r-4 border-t-4 border-l-transparent border-r-transparent border-t-gray-800"></div>
            </div>
         )}
@@ -427,12 +710,12 @@ const MindMapNode: React.FC<MindMapNodeProps> = ({ nodeId, isRoot = false, index
         <div className="flex items-center">
           <div className="w-8 h-px bg-gray-300 flex-shrink-0" />
           <div className="flex flex-col gap-y-2"> 
-             {node.children.map((childId, idx) => (
+             {children.map((childId, idx) => (
                 <MindMapNode 
                   key={childId} 
                   nodeId={childId} 
                   index={idx} 
-                  total={node.children.length} 
+                  total={children.length} 
                 />
              ))}
           </div>
@@ -1,23 +1,48 @@
 
 import React, { useState, useContext, useRef, useEffect } from 'react';
-import { Archive, ChevronDown, ChevronRight, GripVertical, Plus, Trash2, History } from 'lucide-react';
+import { Archive, ChevronDown, ChevronRight, GripVertical, Plus, Trash2, History, SlidersHorizontal, FileText, Paperclip, Pause, Play, RotateCcw, Tag, Link2, Bug } from 'lucide-react';
 import { format } from 'date-fns';
 import { useTreeContext, TreeVisualContext } from '../hooks/useTree';
 import { HistoryModal } from './HistoryModal';
+import { PresetModal } from './PresetModal';
+import { CardContentEditor } from './CardContentEditor';
+import { TagEditor } from './TagEditor';
+import { Backlinks } from './Backlinks';
+import { RichText } from './RichText';
+import { getCardLabel, getCardShortLabel, getNodeItems, getSuspendedCardKeys, hasMultipleCards, renderCloze } from '../utils/cards';
+import { canMoveNode } from '../utils/treeUtils';
+import { getLeechLapses } from '../utils/leeches';
+import { DropPosition } from '../types';
+
+/**
+ * Splits a drop target into bands: the outer quarters drop above/below it as a
+ * sibling, the middle drops into it. Nodes without siblings only take 'inside'.
+ */
+export const getDropPosition = (e: React.DragEvent, allowSiblings = true): DropPosition => {
+  if (!allowSiblings) return 'inside';
+  const rect = e.currentTarget.getBoundingClientRect();
+  const offset = (e.clientY - rect.top) / rect.height;
+  if (offset < 0.25) return 'top';
+  if (offset > 0.75) return 'bottom';
+  return 'inside';
+};
 
 export const NodeItem = React.memo(({ nodeId, isRoot }: { nodeId: string, isRoot?: boolean }) => {
-  const { nodes, toggleExpand, addNode, deleteNode, moveNode, draggingId, setDraggingId, updateNodeTitle, addRetroactiveLog, deleteLog } = useTreeContext();
+  const { nodes, settings, backlinks, toggleExpand, addNode, deleteNode, moveNode, draggingId, setDraggingId, updateNodeTitle, addRetroactiveLog, deleteLog, suspendNodes, unsuspendNodes, resetNodes } = useTreeContext();
   const visualState = useContext(TreeVisualContext);
   const node = nodes[nodeId];
   
   const [isAdding, setIsAdding] = useState(false);
   const [localInput, setLocalInput] = useState("");
   const [showHistory, setShowHistory] = useState(false);
-  const [dropPosition, setDropPosition] = useState<'top' | 'bottom' | null>(null);
+  const [showPreset, setShowPreset] = useState(false);
+  const [showContent, setShowContent] = useState(false);
+  const [showTags, setShowTags] = useState(false);
+  const [dropPosition, setDropPosition] = useState<DropPosition | null>(null);
   
   const inputRef = useRef<HTMLInputElement>(null);
 
-  const isSelected = visualState?.selectedId === nodeId;
+  const isSelected = visualState?.selectedId === nodeId || !!visualState?.selectedIds.has(nodeId);
   const isEditing = visualState?.editingId === nodeId;
   const isSubject = node?.parentId === 'root';
 
@@ -30,7 +55,14 @@ export const NodeItem = React.memo(({ nodeId, isRoot }: { nodeId: string, isRoot
   }, [isEditing]);
 
   if (!node) return null;
+  // A tag filter hides rows outside the matching branches
+  if (visualState?.visibleIds && !isRoot && !visualState.visibleIds.has(nodeId)) return null;
   const hasChildren = node.children && node.children.length > 0;
+  const items = getNodeItems(node);
+  const isMultiCard = hasMultipleCards(items);
+  const leechLapses = Math.max(0, ...items.map(item => getLeechLapses(nodes, item, settings) ?? 0));
+  // The pause button resumes cards suspended on their own as well
+  const canResume = node.fsrs.state === 'suspended' || getSuspendedCardKeys(node).length > 0;
   
   // Status Logic
   let statusBadge = null;
@@ -39,6 +71,27 @@ export const NodeItem = React.memo(({ nodeId, isRoot }: { nodeId: string, isRoot
   // No status for subjects or suspended nodes unless we want to show it explicitly
   if (node.fsrs.state === 'suspended') {
     statusBadge = <span className="text-gray-300" title="已挂起"><Archive size={14} /></span>;
+  } else if (!isRoot && !isSubject && isMultiCard) {
+    // One compact status chip per card (cloze or forward/reverse)
+    statusBadge = (
+      <span className="flex items-center gap-0.5">
+        {items.map(item => {
+          const isDue = item.fsrs.due < Date.now();
+          const isCardSuspended = item.fsrs.state === 'suspended';
+          const status = isCardSuspended ? '已暂停' : isDue ? '到期' : format(item.fsrs.due, 'MMM d');
+          const label = `${getCardLabel(item)} · ${status}${item.fsrs.s > 0 ? ` · S:${item.fsrs.s.toFixed(1)} D:${item.fsrs.d.toFixed(1)}` : ''}`;
+          return (
+            <span
+              key={item.key}
+              title={label}
+              className={`text-[10px] font-bold px-1 rounded ${isCardSuspended ? 'text-gray-400 bg-gray-100 line-through' : isDue ? 'text-rose-500 bg-rose-50' : 'text-emerald-600 bg-emerald-50'}`}
+            >
+              {getCardShortLabel(item)}
+            </span>
+          );
+        })}
+      </span>
+    );
   } else if (!isRoot && !isSubject) {
     const isDue = node.fsrs.due < Date.now();
     statusBadge = isDue 
@@ -83,21 +136,15 @@ export const NodeItem = React.memo(({ nodeId, isRoot }: { nodeId: string, isRoot
 
     if (!draggingId || draggingId === nodeId) return;
 
-    const sourceNode = nodes[draggingId];
-    if (!sourceNode || sourceNode.parentId !== node.parentId) {
+    const position = getDropPosition(e);
+    if (!canMoveNode(nodes, draggingId, nodeId, position)) {
       e.dataTransfer.dropEffect = 'none';
+      setDropPosition(null);
       return;
     }
 
     e.dataTransfer.dropEffect = 'move';
-
-    const rect = e.currentTarget.getBoundingClientRect();
-    const midY = rect.top + rect.height / 2;
-    if (e.clientY < midY) {
-      setDropPosition('top');
-    } else {
-      setDropPosition('bottom');
-    }
+    setDropPosition(position);
   };
 
   const handleDragLeave = (e: React.DragEvent) => {
@@ -110,6 +157,8 @@ export const NodeItem = React.memo(({ nodeId, isRoot }: { nodeId: string, isRoot
     e.stopPropagation();
     
     setDropPosition(null);
+    // The dragged row may remount under its new parent and never see dragend
+    setDraggingId(null);
     const sourceId = e.dataTransfer.getData('text/plain');
     
     if (sourceId && sourceId !== nodeId && dropPosition) {
@@ -145,10 +194,13 @@ export const NodeItem = React.memo(({ nodeId, isRoot }: { nodeId: string, isRoot
          <HistoryModal 
             node={node} 
             onClose={() => setShowHistory(false)} 
-            onAddLog={(r, d) => addRetroactiveLog(nodeId, r, d)}
-            onDeleteLog={(logId) => deleteLog(nodeId, logId)}
+            onAddLog={(r, d, cardKey) => addRetroactiveLog(nodeId, r, d, cardKey)}
+            onDeleteLog={(logId, cardKey) => deleteLog(nodeId, logId, cardKey)}
          />
       )}
+      {showPreset && (
+         <PresetModal node={node} onClose={() => setShowPreset(false)} />
+      )}
 
       <div 
         className={`relative rounded-md transition-all ${isBeingDragged ? 'opacity-30' : 'opacity-100'}`}
@@ -161,9 +213,10 @@ export const NodeItem = React.memo(({ nodeId, isRoot }: { nodeId: string, isRoot
         )}
         
         <div 
+            data-node-id={nodeId}
             className={`
                 group flex items-center justify-between py-1.5 px-2 rounded-md transition-colors cursor-pointer select-none
-                ${dropPosition ? 'bg-indigo-50/50' : ''}
+                ${dropPosition === 'inside' ? 'bg-indigo-100 ring-2 ring-indigo-400' : dropPosition ? 'bg-indigo-50/50' : ''}
                 ${isSelected 
                     ? 'bg-indigo-100 ring-1 ring-indigo-300 shadow-sm z-10' 
                     : 'hover:bg-gray-100'
@@ -171,10 +224,7 @@ export const NodeItem = React.memo(({ nodeId, isRoot }: { nodeId: string, isRoot
             `}
             onClick={(e) => {
                 e.stopPropagation();
-                // Ensure selection happens immediately
-                if (!isSelected) {
-                    visualState?.setSelectedId(nodeId);
-                }
+                visualState?.selectNode(nodeId, { shift: e.shiftKey, toggle: e.ctrlKey || e.metaKey });
             }}
             onDoubleClick={(e) => {
                 e.stopPropagation();
@@ -216,12 +266,60 @@ export const NodeItem = React.memo(({ nodeId, isRoot }: { nodeId: string, isRoot
                     />
                 ) : (
                     <span className={`truncate text-sm block ${textColorClass}`}>
-                        {node.title}
+                        <RichText text={renderCloze(node.title)} inline />
                     </span>
                 )}
             </div>
 
             {fsrsStats}
+            {node.tags?.map(tag => (
+                <button
+                    key={tag}
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        visualState?.setTagFilter(tag);
+                    }}
+                    className="ml-1 text-[10px] text-violet-500 bg-violet-50 px-1 rounded whitespace-nowrap hover:bg-violet-100"
+                    title="只显示带此标签的节点"
+                >
+                    #{tag}
+                </button>
+            ))}
+            {leechLapses > 0 && (
+                <button
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        setShowHistory(true);
+                    }}
+                    className="ml-1 flex items-center gap-0.5 text-[10px] font-bold text-rose-500 bg-rose-50 px-1 rounded whitespace-nowrap hover:bg-rose-100"
+                    title={`难记卡片：已遗忘 ${leechLapses} 次`}
+                >
+                    <Bug size={10} />
+                    {leechLapses}
+                </button>
+            )}
+            {node.attachments && (
+                <span className="ml-1 flex items-center text-[10px] text-indigo-400" title={node.attachments.map(a => a.name).join('\n')}>
+                    <Paperclip size={12} />
+                    {node.attachments.length}
+                </span>
+            )}
+            {backlinks[nodeId] && (
+                <span className="ml-1 flex items-center text-[10px] text-violet-400" title={`${backlinks[nodeId].length} 个节点链接到这里`}>
+                    <Link2 size={12} />
+                    {backlinks[nodeId].length}
+                </span>
+            )}
+            {node.content && (
+                <span className="ml-1 text-indigo-400" title="包含问答内容">
+                    <FileText size={12} />
+                </span>
+            )}
+            {node.preset && (
+                <span className="ml-1 text-indigo-400" title="已设置调度预设">
+                    <SlidersHorizontal size={12} />
+                </span>
+            )}
             <div className="opacity-100 ml-1">{statusBadge}</div>
           </div>
 
@@ -236,6 +334,61 @@ export const NodeItem = React.memo(({ nodeId, isRoot }: { nodeId: string, isRoot
             >
               <History size={14} />
             </button>
+            <button
+              onClick={(e) => {
+                 e.stopPropagation();
+                 setShowContent(!showContent);
+              }}
+              className={`p-1 rounded ${isSelected ? 'text-indigo-400 hover:bg-indigo-200' : 'text-gray-400 hover:bg-gray-200'}`}
+              title="编辑问答内容"
+            >
+              <FileText size={14} />
+            </button>
+            <button
+              onClick={(e) => {
+                 e.stopPropagation();
+                 setShowTags(!showTags);
+              }}
+              className={`p-1 rounded ${isSelected ? 'text-indigo-400 hover:bg-indigo-200' : 'text-gray-400 hover:bg-gray-200'}`}
+              title="编辑标签"
+            >
+              <Tag size={14} />
+            </button>
+            {/* Shift+click applies to the whole subtree */}
+            <button
+              onClick={(e) => {
+                 e.stopPropagation();
+                 const apply = canResume ? unsuspendNodes : suspendNodes;
+                 apply([nodeId], { subtree: e.shiftKey });
+              }}
+              className={`p-1 rounded ${isSelected ? 'text-indigo-400 hover:bg-indigo-200' : 'text-gray-400 hover:bg-gray-200'}`}
+              title={canResume ? '恢复复习（Shift：含子项）' : '暂停复习（Shift：含子项）'}
+            >
+              {canResume ? <Play size={14} /> : <Pause size={14} />}
+            </button>
+            <button
+              onClick={(e) => {
+                 e.stopPropagation();
+                 const subtree = e.shiftKey;
+                 if (confirm(subtree ? '重置该节点及所有子项的复习进度？复习记录会保留。' : '重置该节点的复习进度？复习记录会保留。')) {
+                   resetNodes([nodeId], { subtree });
+                 }
+              }}
+              className={`p-1 rounded ${isSelected ? 'text-indigo-400 hover:bg-indigo-200' : 'text-gray-400 hover:bg-gray-200'}`}
+              title="重置进度（Shift：含子项）"
+            >
+              <RotateCcw size={14} />
+            </button>
+            <button
+              onClick={(e) => {
+                 e.stopPropagation();
+                 setShowPreset(true);
+              }}
+              className={`p-1 rounded ${isSelected ? 'text-indigo-400 hover:bg-indigo-200' : 'text-gray-400 hover:bg-gray-200'}`}
+              title="调度预设"
+            >
+              <SlidersHorizontal size={14} />
+            </button>
             <button
               onClick={(e) => {
                  e.stopPropagation();
@@ -264,6 +417,23 @@ export const NodeItem = React.memo(({ nodeId, isRoot }: { nodeId: string, isRoot
         )}
       </div>
 
+      {showContent && (
+        <div className="pl-8 pr-2 py-2 mb-1">
+          <div className="bg-white border border-gray-200 rounded-lg p-3 shadow-sm">
+            <CardContentEditor node={node} />
+            <div className="mt-3 pt-3 border-t border-gray-100">
+              <Backlinks node={node} />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showTags && (
+        <div className="pl-8 pr-2 py-1 mb-1">
+          <TagEditor node={node} />
+        </div>
+      )}
+
       {isAdding && (
         <div className="pl-8 py-1 mb-1">
            <div className="flex items-center gap-2">
@@ -283,7 +453,7 @@ export const NodeItem = React.memo(({ nodeId, isRoot }: { nodeId: string, isRoot
         </div>
       )}
 
-      {node.isExpanded && hasChildren && (
+      {(node.isExpanded || !!visualState?.visibleIds) && hasChildren && (
         <div className="border-l border-gray-200 ml-2"> 
           {node.children.map((childId: string) => (
             <NodeItem key={childId} nodeId={childId} />
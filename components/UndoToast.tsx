@@ -0,0 +1,51 @@
+import { useEffect, useRef, useState } from 'react';
+import { Undo2, X } from 'lucide-react';
+import { HistoryChange } from '../types';
+import { useTreeContext } from '../hooks/useTree';
+
+const TOAST_DURATION_MS = 6000;
+
+/** Offers a one-click undo right after a destructive edit (deleting a subtree, importing a backup). */
+export const UndoToast = () => {
+  const { lastChange, undo } = useTreeContext();
+  const [visible, setVisible] = useState<HistoryChange | null>(null);
+  // Entry ids only grow, so an older entry resurfacing after an undo or redo never re-opens the toast
+  const newestSeen = useRef(lastChange?.id ?? 0);
+
+  useEffect(() => {
+    if (!lastChange || lastChange.id <= newestSeen.current) {
+      // The change the toast offers to undo is gone (undone from the keyboard, say)
+      if (visible && lastChange?.id !== visible.id) setVisible(null);
+      return;
+    }
+    newestSeen.current = lastChange.id;
+    setVisible(lastChange.destructive ? lastChange : null);
+  }, [lastChange, visible]);
+
+  useEffect(() => {
+    if (!visible) return;
+    const timer = setTimeout(() => setVisible(null), TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [visible]);
+
+  if (!visible) return null;
+
+  return (
+    <div className="fixed bottom-20 md:bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 pl-4 pr-2 py-2 bg-slate-800 text-white text-sm rounded-xl shadow-lg animate-in fade-in slide-in-from-bottom-2 duration-200">
+      <span className="max-w-[16rem] truncate">已{visible.label}</span>
+      <button
+        onClick={() => {
+          setVisible(null);
+          undo();
+        }}
+        className="flex items-center gap-1 px-3 py-1 rounded-lg bg-white/10 hover:bg-white/20 font-bold text-indigo-200"
+      >
+        <Undo2 size={14} />
+        撤销
+      </button>
+      <button onClick={() => setVisible(null)} className="p-1 rounded-lg text-slate-400 hover:text-white" title="关闭">
+        <X size={14} />
+      </button>
+    </div>
+  );
+};
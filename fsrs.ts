@@ -1,42 +1,79 @@
-
-import { FSRSData, FSRSReviewLog, Rating, SchedulingInfo } from './types';
+import { FSRSData, FSRSLogEntry, FSRSParameters, FSRSReviewLog, FSRSVersion, Rating, SchedulingInfo } from './types';
 
 // Standard FSRS v4.5 Weights
-const w = [
+export const DEFAULT_WEIGHTS = [
   0.40255, 1.18385, 3.173, 15.69105, 7.19605, 0.5345, 1.4604, 0.0046, 1.54575,
   0.1192, 1.01925, 1.9395, 0.41, 0.29605, 2.2698, 0.2315, 2.9898, 0.51655,
   0.6621,
 ];
 
-// Constants
+// Standard FSRS-5 Weights (w17, w18 drive the short-term stability update)
+export const FSRS5_DEFAULT_WEIGHTS = [
+  0.40255, 1.18385, 3.173, 15.69105, 7.1949, 0.5345, 1.4604, 0.0046, 1.54575,
+  0.1192, 1.01925, 1.9395, 0.11, 0.29605, 2.2698, 0.2315, 2.9898, 0.51655,
+  0.6621,
+];
+
+export const DEFAULT_WEIGHTS_BY_VERSION: Record<FSRSVersion, number[]> = {
+  'fsrs-4.5': DEFAULT_WEIGHTS,
+  'fsrs-5': FSRS5_DEFAULT_WEIGHTS,
+};
+
+export const DEFAULT_PARAMETERS: FSRSParameters = {
+  version: 'fsrs-4.5',
+  w: DEFAULT_WEIGHTS,
+  requestRetention: 0.9,
+  maximumInterval: 36500,
+  learningSteps: [1, 10],
+  relearningSteps: [10],
+  enableFuzz: false,
+  enableLoadBalance: false,
+};
+
+// Constants of the forgetting curve: R(t) = (1 + FACTOR * t / S) ^ DECAY
+// FACTOR is chosen so that R(S) = 0.9, i.e. stability is the 90% interval.
 const DECAY = -0.5;
-const FACTOR = 0.9; // Request Retention (0.9 is standard)
+const FACTOR = 19 / 81;
 
 /**
  * Calculates the interval in days based on stability and request retention.
- * Interval = S * 9 * (1/R - 1)
+ * Interval = S / FACTOR * (R^(1/DECAY) - 1)
  */
-export const calculateInterval = (s: number): number => {
+export const calculateInterval = (s: number, params: FSRSParameters): number => {
   if (s === 0) return 0;
-  return Math.min(36500, Math.max(1, Math.round(s * 9 * (1 / FACTOR - 1))));
+  const interval = (s / FACTOR) * (Math.pow(params.requestRetention, 1 / DECAY) - 1);
+  return Math.min(params.maximumInterval, Math.max(1, Math.round(interval)));
+};
+
+const initialDifficulty = (rating: Rating, w: number[], version: FSRSVersion): number => {
+  const d0 = version === 'fsrs-5'
+    ? w[4] - Math.exp(w[5] * (rating - 1)) + 1
+    : w[4] - (rating - 3) * w[5];
+  return Math.min(10, Math.max(1, d0));
 };
 
-const nextDifficulty = (d: number, rating: Rating): number => {
+const nextDifficulty = (d: number, rating: Rating, w: number[], version: FSRSVersion): number => {
+  if (version === 'fsrs-5') {
+    // Linear damping towards 10, then mean reversion to D0(Easy)
+    const deltaD = -w[6] * (rating - 3);
+    const nextD = d + deltaD * (10 - d) / 9;
+    return Math.min(10, Math.max(1, w[7] * initialDifficulty(4, w, version) + (1 - w[7]) * nextD));
+  }
   const nextD = d - w[6] * (rating - 3);
   return Math.min(10, Math.max(1, (1 - w[7]) * nextD + w[7] * 1)); 
 };
 
-const initialStability = (rating: Rating): number => {
+const initialStability = (rating: Rating, w: number[]): number => {
   return w[rating - 1];
 };
 
-const initialDifficulty = (rating: Rating): number => {
-  const d0 = w[4] - (rating - 3) * w[5];
-  return Math.min(10, Math.max(1, d0));
-};
-
-const nextStability = (s: number, d: number, r: number, rating: Rating): number => {
+const nextStability = (s: number, d: number, r: number, rating: Rating, w: number[], version: FSRSVersion): number => {
   if (rating === 1) {
+    if (version === 'fsrs-5') {
+      const forgetS = w[11] * Math.pow(d, -w[12]) * (Math.pow(s + 1, w[13]) - 1) * Math.exp(w[14] * (1 - r));
+      // A lapse may never leave the card more stable than a same-day Again would
+      return Math.min(forgetS, s / Math.exp(w[17] * w[18]));
+    }
     return w[11] * Math.pow(d, -w[12]) * Math.pow((s + 1), w[13]) * Math.exp(w[14] * (1 - r));
   }
   const hardPenalty = rating === 2 ? w[15] : 1;
@@ -45,46 +82,181 @@ const nextStability = (s: number, d: number, r: number, rating: Rating): number
   return nextS;
 };
 
-// Exported for use in prioritization logic
-export const currentRetrievability = (s: number, elapsedDays: number): number => {
+// FSRS-5: same-day reviews move stability by a rating-dependent factor
+const shortTermStability = (s: number, rating: Rating, w: number[]): number => {
+  return s * Math.exp(w[17] * (rating - 3 + w[18]));
+};
+
+// Exported for use in prioritization logic.
+// The curve itself does not depend on the desired retention, but the parameter
+// set is accepted so every caller threads the same object through.
+export const currentRetrievability = (s: number, elapsedDays: number, _params: FSRSParameters): number => {
   if (s === 0) return 0;
   return Math.pow(1 + (FACTOR * elapsedDays) / s, DECAY);
 };
 
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Moves a card through its (re)learning steps.
+ * Again restarts, Hard repeats the current step, Good advances, Easy graduates.
+ * Graduating hands the card to the long-term FSRS interval.
+ */
+const stepSchedule = (
+  s: number,
+  d: number,
+  step: number,
+  rating: Rating,
+  steps: number[],
+  learningState: 'learning' | 'relearning',
+  params: FSRSParameters
+): SchedulingInfo => {
+  let nextStep = step;
+  if (rating === 1) nextStep = 0;
+  else if (rating === 3) nextStep = step + 1;
+  else if (rating === 4) nextStep = steps.length;
+
+  const rounded = { s: parseFloat(s.toFixed(4)), d: parseFloat(d.toFixed(4)) };
+  if (nextStep >= steps.length) {
+    return { ...rounded, state: 'review', interval: calculateInterval(s, params) };
+  }
+  return {
+    ...rounded,
+    state: learningState,
+    step: nextStep,
+    interval: steps[nextStep] / MINUTES_PER_DAY
+  };
+};
+
 export const computeNextSchedule = (
   current: FSRSData,
   rating: Rating,
-  reviewTime: number // The time the review actually happens
+  reviewTime: number, // The time the review actually happens
+  params: FSRSParameters
 ): SchedulingInfo => {
+  const { w, version } = params;
+
   // If first time (s=0), treat as new
   if (current.s === 0) {
-     const nextS = initialStability(rating);
-     const nextD = initialDifficulty(rating);
-     return {
-       s: parseFloat(nextS.toFixed(4)),
-       d: parseFloat(nextD.toFixed(4)),
-       interval: calculateInterval(nextS)
-     };
+     const nextS = initialStability(rating, w);
+     const nextD = initialDifficulty(rating, w, version);
+     return stepSchedule(nextS, nextD, 0, rating, params.learningSteps, 'learning', params);
   }
 
   const elapsedDays = Math.max(0, (reviewTime - current.lastReview) / (1000 * 60 * 60 * 24));
-  const r = currentRetrievability(current.s, elapsedDays);
-  const nextD = nextDifficulty(current.d, rating);
-  const nextS = nextStability(current.s, current.d, r, rating);
+  const isSameDay = elapsedDays < 1;
+
+  // Still inside the short-term window: keep stepping.
+  // v4.5 leaves the memory model untouched here; FSRS-5 applies its short-term update.
+  // A (re)learning card that comes back a day or more later is scheduled as a review.
+  if ((current.state === 'learning' || current.state === 'relearning') && isSameDay) {
+     const steps = current.state === 'learning' ? params.learningSteps : params.relearningSteps;
+     const s = version === 'fsrs-5' ? shortTermStability(current.s, rating, w) : current.s;
+     const d = version === 'fsrs-5' ? nextDifficulty(current.d, rating, w, version) : current.d;
+     return stepSchedule(s, d, current.step ?? 0, rating, steps, current.state, params);
+  }
+
+  const nextD = nextDifficulty(current.d, rating, w, version);
+  let nextS: number;
+  if (version === 'fsrs-5' && isSameDay) {
+     nextS = shortTermStability(current.s, rating, w);
+  } else {
+     const r = currentRetrievability(current.s, elapsedDays, params);
+     nextS = nextStability(current.s, current.d, r, rating, w, version);
+  }
+
+  // A lapse sends the card back through the relearning steps
+  if (rating === 1 && params.relearningSteps.length > 0) {
+     return stepSchedule(nextS, nextD, 0, rating, params.relearningSteps, 'relearning', params);
+  }
 
   return {
     s: parseFloat(nextS.toFixed(4)),
     d: parseFloat(nextD.toFixed(4)),
-    interval: calculateInterval(nextS)
+    state: 'review',
+    interval: calculateInterval(nextS, params)
   };
 };
 
+/**
+ * The window of acceptable review-state intervals around the ideal one.
+ * Short intervals get no spread; longer ones get proportionally less.
+ */
+export const getFuzzRange = (interval: number, params: FSRSParameters): [number, number] => {
+  if (interval < 2.5) return [interval, interval];
+  const ratio = interval < 7 ? 0.15 : interval < 20 ? 0.1 : 0.05;
+  const delta = Math.max(1, Math.round(interval * ratio));
+  return [
+    Math.max(2, interval - delta),
+    Math.min(params.maximumInterval, interval + delta)
+  ];
+};
+
+// FNV-1a hash mapped to [0, 1): the same seed always yields the same value
+const seededRandom = (seed: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  // Final avalanche so similar seeds still spread across the range
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return (hash >>> 0) / 0x100000000;
+};
+
+/**
+ * Spreads a review-state interval inside its fuzz range.
+ * Seeded by the review log id, so replays land on the same day.
+ */
+export const fuzzInterval = (interval: number, seed: string, params: FSRSParameters): number => {
+  if (!params.enableFuzz) return interval;
+  const [min, max] = getFuzzRange(interval, params);
+  return min + Math.floor(seededRandom(seed) * (max - min + 1));
+};
+
+// The interval a replayed review lands on. A recorded interval that is still
+// inside the fuzz window (e.g. picked by the load balancer) is kept as-is.
+const replayInterval = (schedule: SchedulingInfo, log: FSRSReviewLog, params: FSRSParameters): number => {
+  if (schedule.state !== 'review' || (!params.enableFuzz && !params.enableLoadBalance)) {
+    return schedule.interval;
+  }
+  const recorded = log.stateAfter?.interval;
+  const [min, max] = getFuzzRange(schedule.interval, params);
+  if (recorded !== undefined && recorded >= min && recorded <= max) return recorded;
+  return fuzzInterval(schedule.interval, log.id, params);
+};
+
+export const isReviewLog = (log: FSRSLogEntry): log is FSRSReviewLog => !('action' in log);
+
+/** The reviews since the card was last reset, oldest first. */
+export const getReviewsSinceReset = (logs: FSRSLogEntry[]): FSRSReviewLog[] => {
+  const sorted = [...logs].sort((a, b) => a.reviewDate - b.reviewDate);
+  let lastReset = -1;
+  sorted.forEach((log, i) => {
+    if (!isReviewLog(log) && log.action === 'reset') lastReset = i;
+  });
+  return sorted.slice(lastReset + 1).filter(isReviewLog);
+};
+
 /**
  * RECALCULATE STATE FROM FULL HISTORY
  * This is the core logic for retroactive history.
- * It replays the history to determine the mathematically correct current state.
+ * It replays the history to determine the mathematically correct current state,
+ * and gives every review log the snapshot (stateAfter) the replay arrived at.
+ * Lifecycle entries take part in the replay: 'reset' forgets the card,
+ * 'suspend' / 'unsuspend' toggle whether the resulting state is suspended, and
+ * 'reschedule' moves the due date while the memory state stays.
+ * The logs come back in their original order.
  */
-export const recalculateFSRS = (logs: FSRSReviewLog[], initialDue: number): FSRSData => {
+export const replayHistory = (
+  logs: FSRSLogEntry[],
+  initialDue: number,
+  params: FSRSParameters
+): { fsrs: FSRSData; logs: FSRSLogEntry[] } => {
   // 1. Sort logs chronologically
   const sortedLogs = [...logs].sort((a, b) => a.reviewDate - b.reviewDate);
 
@@ -98,29 +270,57 @@ export const recalculateFSRS = (logs: FSRSReviewLog[], initialDue: number): FSRS
     due: initialDue,
     lastReview: 0
   };
+  let suspended = false;
+  const snapshots = new Map<string, FSRSReviewLog['stateAfter']>();
 
   if (sortedLogs.length === 0) {
-      return state;
+      return { fsrs: state, logs };
   }
 
   // 3. Replay history
   for (const log of sortedLogs) {
-      const schedule = computeNextSchedule(state, log.rating, log.reviewDate);
+      if (!isReviewLog(log)) {
+          if (log.action === 'reset') {
+              state = { state: 'new', s: 0, d: 0, due: log.reviewDate, lastReview: 0 };
+          } else if (log.action === 'suspend') {
+              suspended = true;
+          } else if (log.action === 'reschedule') {
+              if (log.due !== undefined) state = { ...state, due: log.due };
+          } else {
+              suspended = false;
+              // A card that was never studied starts when it is taken up again
+              if (state.state === 'new') state = { ...state, due: log.reviewDate };
+          }
+          continue;
+      }
+
+      const schedule = computeNextSchedule(state, log.rating, log.reviewDate, params);
+      const interval = replayInterval(schedule, log, params);
       
       state = {
-          state: 'review',
+          state: schedule.state,
+          step: schedule.step,
           s: schedule.s,
           d: schedule.d,
           lastReview: log.reviewDate,
-          due: log.reviewDate + (schedule.interval * 24 * 60 * 60 * 1000)
+          due: log.reviewDate + (interval * 24 * 60 * 60 * 1000)
       };
+      snapshots.set(log.id, { s: schedule.s, d: schedule.d, interval, version: params.version });
   }
 
-  return state;
+  return {
+      fsrs: suspended ? { ...state, state: 'suspended' } : state,
+      logs: logs.map(log => (snapshots.has(log.id) ? { ...log, stateAfter: snapshots.get(log.id) } : log))
+  };
 };
 
+/** The card's current state from its history; see replayHistory. */
+export const recalculateFSRS = (logs: FSRSLogEntry[], initialDue: number, params: FSRSParameters): FSRSData =>
+  replayHistory(logs, initialDue, params).fsrs;
+
 export const formatTime = (days: number): string => {
-  if (days < 1) return '<1天';
+  if (days < 1 / 24) return `${Math.max(1, Math.round(days * MINUTES_PER_DAY))}分钟`;
+  if (days < 1) return `${Math.round(days * 24)}小时`;
   if (days < 30) return `${Math.round(days)}天`;
   if (days < 365) return `${Math.round(days / 30)}个月`;
   return `${(days / 365).toFixed(1)}年`;
@@ -0,0 +1,40 @@
+import { useState, useEffect } from 'react';
+import { ATTACHMENT_STORED_EVENT, getBlob } from '../utils/attachmentStore';
+
+/**
+ * Object URL for an attachment blob in IndexedDB, or null while it is missing
+ * (e.g. still downloading from cloud sync). The URL is revoked on unmount.
+ */
+export function useAttachmentUrl(hash: string) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    const handleStored = (e: Event) => {
+      if ((e as CustomEvent<string>).detail === hash) setVersion(v => v + 1);
+    };
+    window.addEventListener(ATTACHMENT_STORED_EVENT, handleStored);
+    return () => window.removeEventListener(ATTACHMENT_STORED_EVENT, handleStored);
+  }, [hash]);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    getBlob(hash)
+      .then(blob => {
+        if (cancelled || !blob) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(err => console.error('Failed to load attachment', err));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [hash, version]);
+
+  return url;
+}
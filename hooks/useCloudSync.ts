@@ -2,12 +2,16 @@
 import { useEffect, useState, useRef } from 'react';
 import { supabase } from '../supabaseClient';
 import { NodeMap } from '../types';
+import { collectAttachments, getBlob, hasBlob, putBlob } from '../utils/attachmentStore';
+import { createSupabaseBucket, StorageBucket } from '../utils/storageBucket';
 
 export function useCloudSync(
   nodes: NodeMap,
   setNodes: (nodes: NodeMap) => void,
   localTimestamp: number,
-  updateLocalTimestamp: (ts: number) => void
+  updateLocalTimestamp: (ts: number) => void,
+  // Where attachment blobs go; tests can pass createLocalBucket instead
+  createBucket: (userId: string) => StorageBucket = createSupabaseBucket
 ) {
   const [user, setUser] = useState<any>(null);
   const [isSyncing, setIsSyncing] = useState(false);
@@ -16,6 +20,35 @@ export function useCloudSync(
   // to prevent an immediate "bounce back" push.
   const isRemoteUpdate = useRef(false);
 
+  // Attachment hashes known to be in the bucket, so each is checked once per session
+  const syncedHashes = useRef(new Set<string>());
+
+  // Media is uploaded before the tree that references it
+  const uploadAttachments = async (userId: string, tree: NodeMap) => {
+    const bucket = createBucket(userId);
+    for (const { hash } of collectAttachments(tree)) {
+      if (syncedHashes.current.has(hash)) continue;
+      const blob = await getBlob(hash);
+      if (!blob) continue; // Not on this device yet; a pull will fetch it
+      if (!(await bucket.exists(hash))) await bucket.upload(hash, blob);
+      syncedHashes.current.add(hash);
+    }
+  };
+
+  const downloadAttachments = async (userId: string, tree: NodeMap) => {
+    const bucket = createBucket(userId);
+    for (const { hash } of collectAttachments(tree)) {
+      if (await hasBlob(hash)) continue;
+      const blob = await bucket.download(hash);
+      if (!blob) {
+        console.warn('[CloudSync] Attachment missing in storage:', hash);
+        continue;
+      }
+      await putBlob(hash, blob);
+      syncedHashes.current.add(hash);
+    }
+  };
+
   // 1. Auth Listener & Initial Pull
   useEffect(() => {
     // Check current session
@@ -56,6 +89,7 @@ export function useCloudSync(
           isRemoteUpdate.current = true;
           setNodes(data.tree_data);
           updateLocalTimestamp(cloudTime);
+          await downloadAttachments(userId, data.tree_data);
         } else {
             console.log('[CloudSync] Local data is up to date.');
         }
@@ -81,6 +115,12 @@ export function useCloudSync(
       setIsSyncing(true);
       console.log('[CloudSync] Pushing data...');
       
+      try {
+        await uploadAttachments(user.id, nodes);
+      } catch (err) {
+        console.error('[CloudSync] Attachment upload error:', err);
+      }
+
       const now = new Date();
       
       const { error } = await supabase
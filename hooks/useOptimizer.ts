@@ -0,0 +1,68 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { FSRSParameters, NodeMap } from '../types';
+import { buildTrainingSet, OptimizerRequest, OptimizerResponse, OptimizerResult } from '../utils/optimizer';
+
+type OptimizerStatus = 'idle' | 'running' | 'done' | 'error';
+
+/**
+ * Drives the FSRS optimizer Web Worker.
+ * Everything runs locally; no review data leaves the browser.
+ */
+export function useOptimizer() {
+  const [status, setStatus] = useState<OptimizerStatus>('idle');
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<OptimizerResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  const stop = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
+
+  // Never leave a worker running after the settings view unmounts
+  useEffect(() => stop, [stop]);
+
+  const run = useCallback((nodes: NodeMap, params: FSRSParameters) => {
+    stop();
+    setStatus('running');
+    setProgress(0);
+    setResult(null);
+    setError(null);
+
+    const worker = new Worker(new URL('../workers/optimizer.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+
+    worker.onmessage = (e: MessageEvent<OptimizerResponse>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        setProgress(message.progress);
+      } else if (message.type === 'done') {
+        setResult(message.result);
+        setStatus('done');
+        stop();
+      } else {
+        setError(message.message);
+        setStatus('error');
+        stop();
+      }
+    };
+
+    worker.onerror = (e) => {
+      console.error('[Optimizer] Worker error:', e);
+      setError(e.message);
+      setStatus('error');
+      stop();
+    };
+
+    const request: OptimizerRequest = { sequences: buildTrainingSet(nodes), params };
+    worker.postMessage(request);
+  }, [stop]);
+
+  const cancel = useCallback(() => {
+    stop();
+    setStatus('idle');
+  }, [stop]);
+
+  return { status, progress, result, error, run, cancel };
+}
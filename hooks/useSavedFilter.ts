@@ -0,0 +1,18 @@
+import { useMemo } from 'react';
+import { ReviewItem } from '../types';
+import { createFilterPredicate } from '../utils/filters';
+import { useTreeContext } from './useTree';
+
+/**
+ * Predicate for a saved filter, or null when filterId is empty or the filter was
+ * deleted (e.g. on another device), so callers fall back to showing everything.
+ */
+export function useSavedFilter(filterId: string | null): ((item: ReviewItem) => boolean) | null {
+  const { nodes, settings, savedFilters } = useTreeContext();
+  const filter = savedFilters.find(f => f.id === filterId);
+
+  return useMemo(
+    () => (filter ? createFilterPredicate(nodes, filter.expression, settings, Date.now()) : null),
+    [filter, nodes, settings]
+  );
+}
@@ -1,8 +1,17 @@
 
-import { useState, useEffect, useCallback, createContext, useContext } from 'react';
-import { Node, NodeMap, Rating, TreeContextType, FSRSReviewLog } from '../types';
-import { INITIAL_DATA } from '../utils/treeUtils';
-import { recalculateFSRS } from '../fsrs';
+import React, { useState, useEffect, useCallback, useMemo, useRef, createContext, useContext } from 'react';
+import { Node, NodeMap, Rating, TreeContextType, FSRSData, FSRSReviewLog, FSRSParameters, SchedulingPreset, SchedulingInfo, ProfileSettings, CardContent, DropPosition, LifecycleAction, LifecycleOptions, SavedFilter } from '../types';
+import { INITIAL_DATA, canMoveNode, getParameters, getSavedFilters, getSettings, getSubtreeIds, getTopmostIds, normalizeTag } from '../utils/treeUtils';
+import { isBeforeDayStart } from '../utils/learningDay';
+import { isReviewLog, recalculateFSRS, replayHistory } from '../fsrs';
+import { resolveParameters } from '../utils/presets';
+import { balanceInterval, getDueCounts } from '../utils/scheduler';
+import { getCardSchedule, getItemKey, getNodeItems, getSuspendedCardKeys, setCardSchedule, REVERSE_CARD_KEY } from '../utils/cards';
+import { storeAttachment } from '../utils/attachmentStore';
+import { getExpiredTrash, isTrashed } from '../utils/trash';
+import { HistoryEntry, MAX_HISTORY, applyPatch, diffNodes, dropConflicts, mergeEntries } from '../utils/history';
+import { getBacklinkIndex, relabelBacklinks, resolveNodeLinks } from '../utils/links';
+import { LEECH_TAG, getLeechLapses } from '../utils/leeches';
 import { useCloudSync } from './useCloudSync';
 
 // Context Definition
@@ -11,11 +20,177 @@ export const TreeContext = createContext<TreeContextType | null>(null);
 export interface TreeVisualContextType {
   selectedId: string | null;
   setSelectedId: (id: string | null) => void;
+  // Multi-selection for bulk actions; empty while only selectedId is selected
+  selectedIds: Set<string>;
+  // Click semantics: shift extends a range from the anchor, toggle (Ctrl/Cmd) adds or removes one node
+  selectNode: (id: string, modifiers?: { shift?: boolean; toggle?: boolean }) => void;
   editingId: string | null;
   setEditingId: (id: string | null) => void;
+  // Set while a tag filter is active: the rows to show (matches and their ancestors)
+  visibleIds: Set<string> | null;
+  setTagFilter: (tag: string | null) => void;
 }
 export const TreeVisualContext = createContext<TreeVisualContextType | null>(null);
 
+/**
+ * Replays the logs of every reviewed node and cloze card under startId (inclusive)
+ * with the parameters that now apply to it. Mutates `nodes`.
+ */
+const replaySubtree = (nodes: NodeMap, startId: string) => {
+  const stack = [startId];
+  while (stack.length > 0) {
+    const node = nodes[stack.pop()!];
+    if (!node) continue;
+    const params = resolveParameters(nodes, node.id);
+    let next = node;
+    if (node.logs && node.logs.length > 0) {
+      next = { ...next, ...replayHistory(node.logs, node.fsrs.due, params) };
+    }
+    Object.entries(node.cards ?? {}).forEach(([cardKey, card]) => {
+      if (card.logs.length > 0) {
+        next = setCardSchedule(next, cardKey, replayHistory(card.logs, card.fsrs.due, params));
+      }
+    });
+    nodes[node.id] = next;
+    stack.push(...node.children);
+  }
+};
+
+// Describes the edit about to be committed; read once the new tree renders
+interface PendingChange {
+  label: string | ((prev: NodeMap) => string);
+  destructive?: boolean;
+  coalesceKey?: string;
+  resetsHistory?: boolean; // The tree is replaced: the entries before this one no longer apply
+}
+
+/**
+ * Reorders among siblings or reparents anywhere outside the node's own subtree.
+ * Review history moves along; if the new branch resolves to different
+ * parameters, the subtree is replayed under them.
+ */
+const moveInTree = (prev: NodeMap, sourceId: string, targetId: string, position: DropPosition): NodeMap => {
+  if (!canMoveNode(prev, sourceId, targetId, position)) return prev;
+  const source = prev[sourceId];
+  const oldParentId = source.parentId!;
+  const newParentId = position === 'inside' ? targetId : prev[targetId].parentId!;
+
+  const next: NodeMap = {
+    ...prev,
+    [oldParentId]: { ...prev[oldParentId], children: prev[oldParentId].children.filter(id => id !== sourceId) }
+  };
+  const newParent = next[newParentId];
+  const newChildren = [...newParent.children];
+
+  if (position === 'inside') {
+    newChildren.push(sourceId);
+  } else {
+    const targetIndex = newChildren.indexOf(targetId);
+    if (targetIndex === -1) return prev;
+    newChildren.splice(position === 'top' ? targetIndex : targetIndex + 1, 0, sourceId);
+  }
+
+  next[newParentId] = {
+    ...newParent,
+    children: newChildren,
+    isExpanded: position === 'inside' ? true : newParent.isExpanded
+  };
+
+  if (newParentId !== oldParentId) {
+    next[sourceId] = { ...source, parentId: newParentId };
+    const paramsBefore = JSON.stringify(resolveParameters(prev, sourceId));
+    if (JSON.stringify(resolveParameters(next, sourceId)) !== paramsBefore) {
+      replaySubtree(next, sourceId);
+    }
+  }
+  return next;
+};
+
+/** Detaches a subtree from its parent and marks it as trashed; see utils/trash.ts. */
+const trashInTree = (prev: NodeMap, nodeId: string, now: number): NodeMap => {
+  const target = prev[nodeId];
+  if (!target || !target.parentId || target.trashedAt) return prev;
+
+  const next = { ...prev, [nodeId]: { ...target, trashedAt: now } };
+  const parent = prev[target.parentId];
+  if (parent) {
+    next[parent.id] = { ...parent, children: parent.children.filter(id => id !== nodeId) };
+  }
+  return next;
+};
+
+/** Applies fn to every node in ids that exists, in a single new map. */
+const updateEach = (prev: NodeMap, ids: string[], fn: (node: Node) => Node): NodeMap => {
+  const next = { ...prev };
+  ids.forEach(id => {
+    if (next[id]) next[id] = fn(next[id]);
+  });
+  return next;
+};
+
+// Every card of a node (forward, reverse, clozes) gets the same change
+const expandLifecycleTargets = (nodes: NodeMap, ids: string[], options: LifecycleOptions): string[] => {
+  if (!options.subtree) return ids;
+  const targets = new Set<string>();
+  ids.forEach(id => getSubtreeIds(nodes, id).forEach(targetId => {
+    if (nodes[targetId].parentId !== 'root' && nodes[targetId].parentId !== null) targets.add(targetId);
+  }));
+  return [...targets];
+};
+
+/** Appends a lifecycle entry to one card's history and replays it. `due` goes with 'reschedule'. */
+const applyLifecycle = (nodes: NodeMap, node: Node, cardKey: string | undefined, action: LifecycleAction, now: number, due?: number): Node => {
+  const card = getCardSchedule(node, cardKey);
+  let logs = card.logs;
+  // Nodes created in 'store' mode start suspended without an entry saying so
+  if (card.fsrs.state === 'suspended' && recalculateFSRS(logs, card.fsrs.due, resolveParameters(nodes, node.id)).state !== 'suspended') {
+    const since = Math.min(now, ...logs.map(log => log.reviewDate));
+    logs = [{ id: crypto.randomUUID(), action: 'suspend', reviewDate: since }, ...logs];
+  }
+  logs = [...logs, { id: crypto.randomUUID(), action, reviewDate: now, ...(due !== undefined && { due }) }];
+  return setCardSchedule(node, cardKey, replayHistory(logs, card.fsrs.due, resolveParameters(nodes, node.id)));
+};
+
+// The suspension a review caused is undone with it; its entry is named after the review log
+const getLeechLogId = (reviewLogId: string) => `${reviewLogId}:leech`;
+
+/**
+ * Applies the profile's leech action when a review turned the card into a leech.
+ * Only that card is suspended; its siblings (other clozes, the reverse) keep their schedule.
+ */
+const handleNewLeech = (nodes: NodeMap, before: Node, after: Node, cardKey: string | undefined, logId: string, now: number): Node => {
+  const settings = getSettings(nodes);
+  const toItem = (node: Node) => getNodeItems(node).find(item => item.cardKey === cardKey);
+  const previous = toItem(before);
+  const current = toItem(after);
+  if (!current || getLeechLapses(nodes, current, settings) === null) return after;
+  if (previous && getLeechLapses(nodes, previous, settings) !== null) return after;
+
+  const card = getCardSchedule(after, cardKey);
+  switch (settings.leechAction) {
+    case 'tag': {
+      if (after.tags?.includes(LEECH_TAG)) return after;
+      // The review log remembers the tag so undoing the review takes it off again
+      const logs = card.logs.map(log => (log.id === logId && isReviewLog(log) ? { ...log, leechTagged: true } : log));
+      return { ...setCardSchedule(after, cardKey, { ...card, logs }), tags: [...(after.tags || []), LEECH_TAG] };
+    }
+    case 'suspend':
+      return setCardSchedule(after, cardKey, {
+        logs: [...card.logs, { id: getLeechLogId(logId), action: 'suspend', reviewDate: now }],
+        fsrs: { ...card.fsrs, state: 'suspended' }
+      });
+    case 'filter':
+      return after;
+  }
+};
+
+const undoLeechSuspend = (nodes: NodeMap, node: Node, cardKey: string | undefined, logId: string): Node => {
+  const card = getCardSchedule(node, cardKey);
+  const logs = card.logs.filter(log => log.id !== getLeechLogId(logId));
+  if (logs.length === card.logs.length) return node;
+  return setCardSchedule(node, cardKey, { logs, fsrs: recalculateFSRS(logs, card.fsrs.due, resolveParameters(nodes, node.id)) });
+};
+
 export const useTreeContext = () => {
   const context = useContext(TreeContext);
   if (!context) {
@@ -56,11 +231,40 @@ export function useTree() {
 
   const [draggingId, setDraggingId] = useState<string | null>(null);
 
+  // Active FSRS parameter set, persisted on the root node so it travels with the tree
+  const parameters = useMemo(() => getParameters(nodes), [nodes]);
+  const settings = useMemo(() => getSettings(nodes), [nodes]);
+  const savedFilters = useMemo(() => getSavedFilters(nodes), [nodes]);
+  const backlinks = useMemo(() => getBacklinkIndex(nodes), [nodes]);
+
+  // Undo/redo stacks. Mutations announce themselves in pendingChange before calling
+  // setNodes; the history effect below turns the resulting diff into an entry.
+  const [past, setPast] = useState<HistoryEntry[]>([]);
+  const [future, setFuture] = useState<HistoryEntry[]>([]);
+  const pendingChange = useRef<PendingChange | null>(null);
+  const previousNodes = useRef(nodes);
+  const nextEntryId = useRef(1);
+  const canCoalesce = useRef(false); // Undo/redo close the top entry to further merging
+  const isReplaying = useRef(false); // Undo/redo move along the stacks, they are no new edit
+  const isRemote = useRef(false);
+
+  const record = (change: PendingChange | null) => {
+    pendingChange.current = change;
+  };
+
+  // Remote trees replace local state wholesale: they are never undoable, and the entries
+  // recorded against the local tree no longer describe it, so both stacks are cleared
+  const setRemoteNodes = useCallback((value: React.SetStateAction<NodeMap>) => {
+    pendingChange.current = null;
+    isRemote.current = true;
+    setNodes(value);
+  }, []);
+
   // 3. Cloud Sync Integration
   // We pass a wrapped setter to useCloudSync to ensure we can update nodes from cloud
   const { isSyncing } = useCloudSync(
       nodes, 
-      setNodes, 
+      setRemoteNodes, 
       lastModified, 
       (ts) => {
           setLastModified(ts);
@@ -84,32 +288,108 @@ export function useTree() {
     
   }, [nodes]);
 
+  // 5. History Effect
+  useEffect(() => {
+    const prev = previousNodes.current;
+    const change = pendingChange.current;
+    const replaying = isReplaying.current;
+    const remote = isRemote.current;
+    previousNodes.current = nodes;
+    pendingChange.current = null;
+    isReplaying.current = false;
+    isRemote.current = false;
+
+    if (remote) {
+      setPast([]);
+      setFuture([]);
+      return;
+    }
+    if (replaying) return;
+
+    const diff = diffNodes(prev, nodes);
+    if (!diff) return;
+
+    // Unrecorded edits (reviews, navigation) stay, but undoing an entry must not overwrite them
+    // (and a later entry must not merge across them, or its diff would take them in)
+    if (!change) {
+      canCoalesce.current = false;
+      setPast(stack => dropConflicts(stack, diff));
+      setFuture(stack => dropConflicts(stack, diff));
+      return;
+    }
+
+    const label = typeof change.label === 'function' ? change.label(prev) : change.label;
+    const coalesce = !!change.coalesceKey && canCoalesce.current;
+    const id = nextEntryId.current++;
+    setPast(stack => {
+      const last = stack[stack.length - 1];
+      if (coalesce && last?.coalesceKey === change.coalesceKey) {
+        return [...stack.slice(0, -1), mergeEntries(last, diff)];
+      }
+      const entry: HistoryEntry = {
+        id,
+        label,
+        destructive: !!change.destructive,
+        coalesceKey: change.coalesceKey,
+        ...diff
+      };
+      return change.resetsHistory ? [entry] : [...stack, entry].slice(-MAX_HISTORY);
+    });
+    canCoalesce.current = true;
+    setFuture([]);
+  }, [nodes]);
+
+  const undo = useCallback(() => {
+    const entry = past[past.length - 1];
+    if (!entry) return;
+    record(null);
+    isReplaying.current = true;
+    canCoalesce.current = false;
+    setNodes(prev => applyPatch(prev, entry.after, entry.before));
+    setPast(stack => stack.slice(0, -1));
+    setFuture(stack => [...stack, entry]);
+  }, [past]);
+
+  const redo = useCallback(() => {
+    const entry = future[future.length - 1];
+    if (!entry) return;
+    record(null);
+    isReplaying.current = true;
+    canCoalesce.current = false;
+    setNodes(prev => applyPatch(prev, entry.before, entry.after));
+    setFuture(stack => stack.slice(0, -1));
+    setPast(stack => [...stack, entry]);
+  }, [future]);
+
+  const lastChange = past.length > 0 ? past[past.length - 1] : null;
+
   const addNode = useCallback((parentId: string, title: string, mode: 'store' | 'plan') => {
     const newId = crypto.randomUUID();
     const now = Date.now();
-    const dateObj = new Date(now);
-    
-    // Late night logic (00:00 - 03:00):
-    const isLateNight = dateObj.getHours() < 3;
-    const initialDue = isLateNight ? now : now + (24 * 60 * 60 * 1000);
-    
-    const newNode: Node = {
-      id: newId,
-      parentId,
-      title,
-      children: [],
-      isExpanded: false,
-      fsrs: {
-        state: mode === 'plan' ? 'new' : 'suspended',
-        s: 0,
-        d: 0,
-        due: mode === 'plan' ? initialDue : 0, 
-        lastReview: 0 
-      },
-      logs: []
-    };
 
+    record({ label: '添加节点' });
     setNodes(prev => {
+      // Late night logic (before the day rollover):
+      // the session still belongs to "today", so the card is due right away.
+      const isLateNight = isBeforeDayStart(now, getSettings(prev));
+      const initialDue = isLateNight ? now : now + (24 * 60 * 60 * 1000);
+
+      const newNode: Node = {
+        id: newId,
+        parentId,
+        title,
+        children: [],
+        isExpanded: false,
+        fsrs: {
+          state: mode === 'plan' ? 'new' : 'suspended',
+          s: 0,
+          d: 0,
+          due: mode === 'plan' ? initialDue : 0, 
+          lastReview: 0 
+        },
+        logs: []
+      };
+
       const next = { ...prev };
       if (next[parentId]) {
         next[newId] = newNode;
@@ -126,48 +406,153 @@ export function useTree() {
   }, []);
 
   const updateNodeTitle = useCallback((id: string, title: string) => {
+    record({ label: '修改标题', coalesceKey: `title:${id}` });
     setNodes(prev => {
       if (!prev[id]) return prev;
+      const next = { ...prev, [id]: resolveNodeLinks(prev, { ...prev[id], title }) };
+      // Links pinned to this node follow the new title
+      relabelBacklinks(next, id);
+      return next;
+    });
+  }, []);
+
+  // Empty sides are dropped so title-only nodes stay title-only
+  const updateNodeContent = useCallback((id: string, content: CardContent) => {
+    record({ label: '编辑卡片内容', coalesceKey: `content:${id}` });
+    setNodes(prev => {
+      if (!prev[id]) return prev;
+      const merged: CardContent = { ...prev[id].content, ...content };
+      (Object.keys(merged) as (keyof CardContent)[]).forEach(key => {
+        if (!merged[key]?.trim()) delete merged[key];
+      });
       return {
         ...prev,
-        [id]: { ...prev[id], title }
+        [id]: resolveNodeLinks(prev, { ...prev[id], content: Object.keys(merged).length > 0 ? merged : undefined })
       };
     });
   }, []);
 
-  const deleteNode = useCallback((nodeId: string) => {
-    setNodes((prevNodes) => {
-      const newNodes = JSON.parse(JSON.stringify(prevNodes));
-      const targetId = String(nodeId); 
-
-      if (!newNodes[targetId]) return prevNodes;
+  // The blob goes to IndexedDB first; the node only keeps the reference
+  const addAttachment = useCallback(async (nodeId: string, file: File) => {
+    const attachment = await storeAttachment(file);
+    record({ label: '添加附件' });
+    setNodes(prev => {
+      const node = prev[nodeId];
+      if (!node || node.attachments?.some(a => a.hash === attachment.hash)) return prev;
+      return {
+        ...prev,
+        [nodeId]: { ...node, attachments: [...(node.attachments || []), attachment] }
+      };
+    });
+  }, []);
 
-      const targetNode = newNodes[targetId];
-      const parentId = targetNode.parentId ? String(targetNode.parentId) : null;
+  // Blobs are kept: another node may reference the same file
+  const removeAttachment = useCallback((nodeId: string, hash: string) => {
+    record({ label: '删除附件', destructive: true });
+    setNodes(prev => {
+      const node = prev[nodeId];
+      if (!node?.attachments) return prev;
+      const attachments = node.attachments.filter(a => a.hash !== hash);
+      return {
+        ...prev,
+        [nodeId]: { ...node, attachments: attachments.length > 0 ? attachments : undefined }
+      };
+    });
+  }, []);
 
-      if (parentId && newNodes[parentId]) {
-        const parent = newNodes[parentId];
-        parent.children = parent.children.filter((childId: string) => String(childId) !== targetId);
+  // Turning the reverse card off keeps its history, so turning it back on resumes it
+  const setReverseCard = useCallback((nodeId: string, enabled: boolean) => {
+    record({ label: enabled ? '启用反向卡片' : '关闭反向卡片' });
+    setNodes(prev => {
+      const node = prev[nodeId];
+      if (!node) return prev;
+      let next: Node = { ...node, reverse: enabled || undefined };
+      if (enabled && !node.cards?.[REVERSE_CARD_KEY]) {
+        next = setCardSchedule(next, REVERSE_CARD_KEY, {
+          fsrs: { state: 'new', s: 0, d: 0, due: Date.now(), lastReview: 0 },
+          logs: []
+        });
       }
+      return { ...prev, [nodeId]: next };
+    });
+  }, []);
 
-      const idsToDelete: string[] = [];
-      const stack = [targetId];
+  const replaceNodes = useCallback((restored: NodeMap) => {
+    Object.keys(restored).forEach(key => {
+      if (!restored[key].logs) restored[key].logs = [];
+    });
+    record({ label: '导入备份', destructive: true, resetsHistory: true });
+    setNodes(restored);
+  }, []);
 
-      while (stack.length > 0) {
-        const currentId = String(stack.pop()!);
-        idsToDelete.push(currentId);
-        const node = newNodes[currentId];
-        if (node && node.children && node.children.length > 0) {
-          node.children.forEach((childId: string) => stack.push(String(childId)));
-        }
+  // Deleting moves the subtree to the trash; purgeNode is the permanent removal
+  const deleteNode = useCallback((nodeId: string) => {
+    record({ label: prev => `将「${prev[nodeId]?.title ?? ''}」移入回收站`, destructive: true });
+    setNodes(prev => trashInTree(prev, nodeId, Date.now()));
+  }, []);
+
+  // Restores under the original parent unless another one is given.
+  // A parent that is itself gone or in the trash cannot take the subtree back.
+  const restoreNode = useCallback((nodeId: string, parentId?: string) => {
+    record({ label: prev => `恢复「${prev[nodeId]?.title ?? ''}」` });
+    setNodes(prev => {
+      const target = prev[nodeId];
+      const newParentId = parentId ?? target?.parentId;
+      if (!target?.trashedAt || !newParentId || !prev[newParentId] || isTrashed(prev, newParentId)) return prev;
+
+      const { trashedAt: _, ...restored } = target;
+      const parent = prev[newParentId];
+      const next: NodeMap = {
+        ...prev,
+        [nodeId]: { ...restored, parentId: newParentId },
+        [newParentId]: { ...parent, children: [...parent.children, nodeId], isExpanded: true }
+      };
+      // Restored under another branch: replay as a move would
+      const paramsBefore = JSON.stringify(resolveParameters(prev, nodeId));
+      if (JSON.stringify(resolveParameters(next, nodeId)) !== paramsBefore) {
+        replaySubtree(next, nodeId);
       }
+      return next;
+    });
+  }, []);
+
+  const purgeNode = useCallback((nodeId: string) => {
+    record({ label: prev => `彻底删除「${prev[nodeId]?.title ?? ''}」`, destructive: true });
+    setNodes(prev => {
+      if (!prev[nodeId]?.trashedAt) return prev;
+      const next = { ...prev };
+      getSubtreeIds(prev, nodeId).forEach(id => delete next[id]);
+      return next;
+    });
+  }, []);
 
-      idsToDelete.forEach((id) => delete newNodes[id]);
-      return newNodes;
+  const emptyTrash = useCallback(() => {
+    record({ label: '清空回收站', destructive: true });
+    setNodes(prev => {
+      const next = { ...prev };
+      Object.values(prev).forEach(node => {
+        if (node.trashedAt) getSubtreeIds(prev, node.id).forEach(id => delete next[id]);
+      });
+      return next;
     });
   }, []);
 
+  // Expired trash is purged on load and whenever the retention period changes.
+  // This is housekeeping, not an edit, so it stays out of the undo history.
+  useEffect(() => {
+    if (getExpiredTrash(nodes, settings.trashRetentionDays, Date.now()).length === 0) return;
+    record(null);
+    setNodes(prev => {
+      const expired = getExpiredTrash(prev, getSettings(prev).trashRetentionDays, Date.now());
+      if (expired.length === 0) return prev;
+      const next = { ...prev };
+      expired.forEach(node => getSubtreeIds(prev, node.id).forEach(id => delete next[id]));
+      return next;
+    });
+  }, [settings.trashRetentionDays]);
+
   const toggleExpand = useCallback((id: string) => {
+    record(null);
     setNodes(prev => {
       if (!prev[id]) return prev;
       return {
@@ -177,70 +562,183 @@ export function useTree() {
     });
   }, []);
 
-  const moveNode = useCallback((sourceId: string, targetId: string, position: 'top' | 'bottom') => {
+  // Navigation, not an edit: jumping to a search result should not clutter undo
+  const revealNode = useCallback((id: string) => {
+    record(null);
     setNodes(prev => {
-      const source = prev[sourceId];
-      const target = prev[targetId];
-      if (!source || !target || source.parentId !== target.parentId || !source.parentId) {
-        return prev;
+      let next = prev;
+      let parentId = prev[id]?.parentId;
+      while (parentId && next[parentId]) {
+        if (!next[parentId].isExpanded) {
+          if (next === prev) next = { ...prev };
+          next[parentId] = { ...next[parentId], isExpanded: true };
+        }
+        parentId = next[parentId].parentId;
       }
-      const parentId = source.parentId;
-      const parent = prev[parentId];
+      return next;
+    });
+  }, []);
 
-      const newChildren = parent.children.filter(id => id !== sourceId);
-      
-      const targetIndex = newChildren.indexOf(targetId);
-      if (targetIndex === -1) return prev;
+  const moveNode = useCallback((sourceId: string, targetId: string, position: DropPosition) => {
+    record({ label: '移动节点' });
+    setNodes(prev => moveInTree(prev, sourceId, targetId, position));
+  }, []);
 
-      const insertIndex = position === 'top' ? targetIndex : targetIndex + 1;
-      newChildren.splice(insertIndex, 0, sourceId);
+  // --- Bulk actions: each is a single history entry however many nodes it touches ---
 
-      return {
-        ...prev,
-        [parentId]: { ...parent, children: newChildren }
-      };
-    });
+  const moveNodes = useCallback((ids: string[], parentId: string) => {
+    record({ label: `移动 ${ids.length} 个节点` });
+    setNodes(prev => getTopmostIds(prev, ids).reduce((acc, id) => moveInTree(acc, id, parentId, 'inside'), prev));
+  }, []);
+
+  const deleteNodes = useCallback((ids: string[]) => {
+    record({ label: `将 ${ids.length} 个节点移入回收站`, destructive: true });
+    const now = Date.now();
+    setNodes(prev => getTopmostIds(prev, ids).reduce((acc, id) => trashInTree(acc, id, now), prev));
+  }, []);
+
+  // Lifecycle actions append an entry to the history and replay it, so later edits
+  // to the history (retroactive reviews, parameter changes) keep them in effect.
+  // Suspension lives on the node's own history; a reset applies to every card.
+
+  // 'store' semantics: the node stays in the tree but leaves the review queue
+  const suspendNodes = useCallback((ids: string[], options: LifecycleOptions = {}) => {
+    record({ label: options.subtree ? '暂停子树复习' : `暂停 ${ids.length} 个节点` });
+    const now = Date.now();
+    setNodes(prev => updateEach(prev, expandLifecycleTargets(prev, ids, options), node => (
+      getCardSchedule(node, options.cardKey).fsrs.state === 'suspended' ? node : applyLifecycle(prev, node, options.cardKey, 'suspend', now)
+    )));
+  }, []);
+
+  // Back to 'plan' semantics: reviewed nodes resume where their history left them, others start today.
+  // Without a card key the cards suspended on their own come back too.
+  const unsuspendNodes = useCallback((ids: string[], options: LifecycleOptions = {}) => {
+    record({ label: options.subtree ? '恢复子树复习' : `恢复 ${ids.length} 个节点` });
+    const now = Date.now();
+    setNodes(prev => updateEach(prev, expandLifecycleTargets(prev, ids, options), node => {
+      const cardKeys = options.cardKey !== undefined ? [options.cardKey] : [undefined, ...getSuspendedCardKeys(node)];
+      return cardKeys.reduce((next, cardKey) => (
+        getCardSchedule(next, cardKey).fsrs.state === 'suspended' ? applyLifecycle(prev, next, cardKey, 'unsuspend', now) : next
+      ), node);
+    }));
+  }, []);
+
+  // Forgets every card of the nodes: new again and due now. Past reviews stay in the history.
+  const resetNodes = useCallback((ids: string[], options: LifecycleOptions = {}) => {
+    record({ label: options.subtree ? '重置子树' : `重置 ${ids.length} 个节点` });
+    const now = Date.now();
+    setNodes(prev => updateEach(prev, expandLifecycleTargets(prev, ids, options), node => {
+      let next = applyLifecycle(prev, node, undefined, 'reset', now);
+      Object.keys(node.cards ?? {}).forEach(cardKey => {
+        next = applyLifecycle(prev, next, cardKey, 'reset', now);
+      });
+      return next;
+    }));
+  }, []);
+
+  // Moves the due date of every unsuspended card; the memory state is untouched.
+  // The move is logged so that replays (new parameters, retroactive logs) keep it.
+  const rescheduleNodes = useCallback((ids: string[], due: number) => {
+    record({ label: `改期 ${ids.length} 个节点` });
+    const now = Date.now();
+    setNodes(prev => updateEach(prev, ids, node => (
+      [undefined, ...Object.keys(node.cards ?? {})].reduce((next, cardKey) => (
+        getCardSchedule(next, cardKey).fsrs.state === 'suspended' ? next : applyLifecycle(prev, next, cardKey, 'reschedule', now, due)
+      ), node)
+    )));
+  }, []);
+
+  const addTag = useCallback((ids: string[], tag: string) => {
+    const name = normalizeTag(tag);
+    if (!name) return;
+    record({ label: `添加标签 #${name}` });
+    setNodes(prev => updateEach(prev, ids, node => (
+      node.tags?.includes(name) ? node : { ...node, tags: [...(node.tags || []), name] }
+    )));
+  }, []);
+
+  const removeTag = useCallback((ids: string[], tag: string) => {
+    const name = normalizeTag(tag);
+    record({ label: `移除标签 #${name}` });
+    setNodes(prev => updateEach(prev, ids, node => {
+      if (!node.tags?.includes(name)) return node;
+      const tags = node.tags.filter(t => t !== name);
+      return { ...node, tags: tags.length > 0 ? tags : undefined };
+    }));
   }, []);
 
   // Standard Review (Today)
-  const reviewComplete = useCallback((id: string, s: number, d: number, interval: number, rating: Rating) => {
+  const reviewComplete = useCallback((id: string, schedule: SchedulingInfo, rating: Rating, cardKey?: string) => {
+    const { s, d } = schedule;
     const now = Date.now();
+    const logId = crypto.randomUUID();
+    // Counted once here rather than in the updater, which may run more than once
+    const dueCounts = schedule.state === 'review' ? getDueCounts(nodes, getItemKey(id, cardKey)) : {};
     
+    record(null); // The review deck keeps its own exact undo
     setNodes(prev => {
       if (!prev[id]) return prev;
       const node = prev[id];
+      const card = getCardSchedule(node, cardKey);
+      const params = resolveParameters(prev, id);
+
+      // Review-state intervals get fuzz / load balancing; learning steps stay exact
+      const interval = schedule.state === 'review'
+        ? balanceInterval(dueCounts, schedule.interval, logId, params, now, getSettings(prev))
+        : schedule.interval;
       
       const newLog: FSRSReviewLog = {
-        id: crypto.randomUUID(),
+        id: logId,
         rating,
         reviewDate: now,
-        stateAfter: { s, d, interval }
+        stateAfter: { s, d, interval, version: params.version }
       };
 
-      const updatedLogs = [...(node.logs || []), newLog];
-
-      return {
-        ...prev,
-        [id]: {
-          ...node,
-          logs: updatedLogs,
-          fsrs: {
-            state: 'review',
-            s,
-            d,
-            lastReview: now,
-            due: now + (interval * 24 * 60 * 60 * 1000)
-          }
+      const updated = setCardSchedule(node, cardKey, {
+        logs: [...(card.logs || []), newLog],
+        fsrs: {
+          state: schedule.state,
+          step: schedule.step,
+          s,
+          d,
+          lastReview: now,
+          due: now + (interval * 24 * 60 * 60 * 1000)
         }
-      };
+      });
+      return { ...prev, [id]: handleNewLeech(prev, node, updated, cardKey, logId, now) };
+    });
+
+    return logId;
+  }, [nodes]);
+
+  // Reverts a review exactly: drops its log and puts back the state from before it,
+  // rather than replaying (which could land on a different fuzzed interval)
+  const undoReview = useCallback((id: string, logId: string, previous: FSRSData, cardKey?: string) => {
+    record(null);
+    setNodes(prev => {
+      if (!prev[id]) return prev;
+      const node = undoLeechSuspend(prev, prev[id], cardKey, logId);
+      const card = getCardSchedule(node, cardKey);
+      const log = card.logs.find(entry => entry.id === logId);
+      if (!log) return prev;
+
+      const restored = setCardSchedule(node, cardKey, {
+        logs: card.logs.filter(entry => entry.id !== logId),
+        fsrs: { ...previous }
+      });
+      if (!isReviewLog(log) || !log.leechTagged) return { ...prev, [id]: restored };
+      const tags = restored.tags?.filter(tag => tag !== LEECH_TAG);
+      return { ...prev, [id]: { ...restored, tags: tags?.length ? tags : undefined } };
     });
   }, []);
 
   // Retroactive Log
-  const addRetroactiveLog = useCallback((id: string, rating: Rating, date: number) => {
+  const addRetroactiveLog = useCallback((id: string, rating: Rating, date: number, cardKey?: string) => {
+    record({ label: '补录复习' });
     setNodes(prev => {
       if (!prev[id]) return prev;
       const node = prev[id];
+      const card = getCardSchedule(node, cardKey);
       
       const newLog: FSRSReviewLog = {
         id: crypto.randomUUID(),
@@ -248,27 +746,25 @@ export function useTree() {
         reviewDate: date
       };
       
-      const updatedLogs = [...(node.logs || []), newLog];
-      const recalculatedState = recalculateFSRS(updatedLogs, node.fsrs.due);
+      // The replay fills in the snapshot of the new log and of every later one it shifts
+      const updatedLogs = [...(card.logs || []), newLog];
 
       return {
         ...prev,
-        [id]: {
-          ...node,
-          logs: updatedLogs,
-          fsrs: recalculatedState
-        }
+        [id]: setCardSchedule(node, cardKey, replayHistory(updatedLogs, card.fsrs.due, resolveParameters(prev, id)))
       };
     });
   }, []);
 
-  const deleteLog = useCallback((nodeId: string, logId: string) => {
+  const deleteLog = useCallback((nodeId: string, logId: string, cardKey?: string) => {
+      record({ label: '删除复习记录', destructive: true });
       setNodes(prev => {
           if (!prev[nodeId]) return prev;
           const node = prev[nodeId];
-          const updatedLogs = node.logs.filter(l => l.id !== logId);
-          
-          const recalculatedState = recalculateFSRS(updatedLogs, Date.now()); 
+          const card = getCardSchedule(node, cardKey);
+          const { logs: updatedLogs, fsrs: recalculatedState } = replayHistory(
+            card.logs.filter(l => l.id !== logId), Date.now(), resolveParameters(prev, nodeId)
+          );
           
           if (updatedLogs.length === 0) {
               recalculatedState.state = 'new';
@@ -279,27 +775,114 @@ export function useTree() {
 
           return {
               ...prev,
-              [nodeId]: {
-                  ...node,
-                  logs: updatedLogs,
-                  fsrs: recalculatedState
-              }
+              [nodeId]: setCardSchedule(node, cardKey, { logs: updatedLogs, fsrs: recalculatedState })
           };
       });
   }, []);
 
+  // Changing parameters re-derives every reviewed node's state from its logs
+  const updateParameters = useCallback((params: Partial<FSRSParameters>) => {
+    record({ label: '修改算法参数' });
+    setNodes(prev => {
+      if (!prev['root']) return prev;
+      const next: NodeMap = {
+        ...prev,
+        root: { ...prev['root'], params: { ...prev['root'].params, ...params } }
+      };
+      replaySubtree(next, 'root');
+      return next;
+    });
+  }, []);
+
+  const updateSettings = useCallback((patch: Partial<ProfileSettings>) => {
+    record({ label: '修改设置' });
+    setNodes(prev => {
+      if (!prev['root']) return prev;
+      return {
+        ...prev,
+        root: { ...prev['root'], settings: { ...prev['root'].settings, ...patch } }
+      };
+    });
+  }, []);
+
+  const saveFilter = useCallback((filter: SavedFilter) => {
+    record({ label: '保存筛选' });
+    setNodes(prev => {
+      if (!prev['root']) return prev;
+      const filters = getSavedFilters(prev);
+      const next = filters.some(f => f.id === filter.id)
+        ? filters.map(f => (f.id === filter.id ? filter : f))
+        : [...filters, filter];
+      return { ...prev, root: { ...prev['root'], filters: next } };
+    });
+  }, []);
+
+  const deleteFilter = useCallback((id: string) => {
+    record({ label: '删除筛选', destructive: true });
+    setNodes(prev => {
+      if (!prev['root']) return prev;
+      return { ...prev, root: { ...prev['root'], filters: getSavedFilters(prev).filter(f => f.id !== id) } };
+    });
+  }, []);
+
+  const updatePreset = useCallback((id: string, preset: SchedulingPreset | null) => {
+    record({ label: '修改复习预设' });
+    setNodes(prev => {
+      if (!prev[id]) return prev;
+      const next: NodeMap = {
+        ...prev,
+        [id]: { ...prev[id], preset: preset ?? undefined }
+      };
+      replaySubtree(next, id);
+      return next;
+    });
+  }, []);
+
   return {
     nodes,
     addNode,
     updateNodeTitle,
+    updateNodeContent,
+    addAttachment,
+    removeAttachment,
+    replaceNodes,
+    setReverseCard,
     deleteNode,
+    restoreNode,
+    purgeNode,
+    emptyTrash,
     toggleExpand,
+    revealNode,
     moveNode,
+    moveNodes,
+    deleteNodes,
+    suspendNodes,
+    unsuspendNodes,
+    resetNodes,
+    rescheduleNodes,
+    addTag,
+    removeTag,
     reviewComplete,
+    undoReview,
     addRetroactiveLog,
     deleteLog,
+    parameters,
+    updateParameters,
+    updatePreset,
+    settings,
+    updateSettings,
+    savedFilters,
+    backlinks,
+    saveFilter,
+    deleteFilter,
     draggingId,
     setDraggingId,
+    undo,
+    redo,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+    lastChange,
+    nextChange: future.length > 0 ? future[future.length - 1] : null,
     isSyncing // Exposed for UI if needed
   };
 }
@@ -1,5 +1,5 @@
 
-export type NodeState = 'new' | 'learning' | 'review' | 'suspended';
+export type NodeState = 'new' | 'learning' | 'review' | 'relearning' | 'suspended';
 
 export type Rating = 1 | 2 | 3 | 4; // Again, Hard, Good, Easy
 
@@ -9,6 +9,7 @@ export interface FSRSData {
   d: number; // Difficulty
   due: number; // Timestamp
   lastReview: number; // Timestamp
+  step?: number; // Current (re)learning step index
 }
 
 export interface FSRSReviewLog {
@@ -20,7 +21,95 @@ export interface FSRSReviewLog {
     s: number;
     d: number;
     interval: number;
+    version?: FSRSVersion; // Algorithm that produced this state
   };
+  leechTagged?: boolean; // This review turned the card into a leech and added the tag
+}
+
+// Lifecycle changes live in the same history as reviews so a replay reproduces them
+export type LifecycleAction = 'suspend' | 'unsuspend' | 'reset' | 'reschedule';
+
+export interface FSRSLifecycleLog {
+  id: string;
+  action: LifecycleAction;
+  reviewDate: number; // When the action was taken; named like review logs so one timeline sorts both
+  due?: number; // 'reschedule': the due date the card was moved to
+}
+
+export type FSRSLogEntry = FSRSReviewLog | FSRSLifecycleLog;
+
+export interface LifecycleOptions {
+  subtree?: boolean; // Also every descendant; subject containers themselves are left alone
+  cardKey?: string; // Only this card (a cloze or the reverse) of each node, e.g. a suspended leech
+}
+
+export type FSRSVersion = 'fsrs-4.5' | 'fsrs-5';
+
+export interface FSRSParameters {
+  version: FSRSVersion;
+  w: number[]; // 19 model weights
+  requestRetention: number; // Desired retention (0.9 is standard)
+  maximumInterval: number; // in days
+  learningSteps: number[]; // in minutes, for new cards
+  relearningSteps: number[]; // in minutes, for lapsed cards
+  enableFuzz: boolean; // Spread review intervals deterministically
+  enableLoadBalance: boolean; // Pick the least-loaded day within the fuzz range
+}
+
+// Profile-wide preferences that are not part of the FSRS model
+export interface ProfileSettings {
+  dayStartHour: number; // Hour (0-23) at which a new learning day begins
+  timeZone: string; // IANA time zone, e.g. 'Asia/Shanghai'
+  trashRetentionDays: number; // Trashed subtrees older than this are purged; 0 keeps them forever
+  leechLapses: number; // Lapses after which a hard card counts as a leech (utils/leeches.ts)
+  leechDifficulty: number; // Difficulty (1-10) a card needs to count as a leech
+  leechAction: LeechAction;
+  burySiblings: boolean; // Reviewing a card buries the cards of its sibling nodes until tomorrow (utils/burying.ts)
+  buryCardSiblings: boolean; // ...and the other cards (clozes, reverse) of its own node
+  newPerDay: number | null; // Profile-wide cap on new cards per learning day; null = no cap
+  reviewsPerDay: number | null; // Profile-wide cap on reviews per learning day; null = no cap
+}
+
+// What happens to a card when it becomes a leech
+export type LeechAction = 'tag' | 'suspend' | 'filter';
+
+// Per-subject overrides, inherited by every descendant
+export interface SchedulingPreset {
+  requestRetention?: number;
+  maximumInterval?: number;
+  newPerDay?: number; // Max new cards introduced per day
+  reviewsPerDay?: number; // Max review cards shown per day
+  prerequisites?: boolean; // Hold cards back until their parent concept is learned (utils/prerequisites.ts)
+  prerequisiteStability?: number; // Parent stability (days) that releases its children
+}
+
+// A named filter expression (see utils/filters.ts) that can scope the deck, calendar and print plan
+export interface SavedFilter {
+  id: string;
+  name: string;
+  expression: string;
+}
+
+// Optional question/answer sides; a node without them is reviewed by its title alone
+export interface CardContent {
+  front?: string; // Question shown first (falls back to the title)
+  back?: string; // Answer revealed on tap
+  notes?: string; // Free-form notes shown alongside the answer
+}
+
+// Media referenced by a node; the bytes live in IndexedDB under the content hash
+export interface Attachment {
+  hash: string; // SHA-256 of the file contents, hex
+  kind: 'image' | 'audio';
+  mimeType: string;
+  name: string;
+  size: number; // bytes
+}
+
+// A card scheduled on its own inside a node, e.g. one cloze deletion
+export interface CardSchedule {
+  fsrs: FSRSData;
+  logs: FSRSLogEntry[];
 }
 
 export interface Node {
@@ -30,29 +119,96 @@ export interface Node {
   children: string[]; // List of child IDs
   isExpanded: boolean;
   fsrs: FSRSData;
-  logs: FSRSReviewLog[]; // FULL HISTORY
+  logs: FSRSLogEntry[]; // FULL HISTORY
+  params?: Partial<FSRSParameters>; // Only used on 'root': the active parameter set
+  settings?: Partial<ProfileSettings>; // Only used on 'root'
+  filters?: SavedFilter[]; // Only used on 'root'
+  preset?: SchedulingPreset; // Overrides for this node's subtree
+  content?: CardContent;
+  cards?: Record<string, CardSchedule>; // Keyed by card key ('c1', 'c2', ...)
+  tags?: string[]; // Without the leading '#'
+  trashedAt?: number; // Set on the top node of a deleted subtree; it keeps its parentId for restoring
+  attachments?: Attachment[];
+  reverse?: boolean; // Also review answer -> question (needs a back side)
 }
 
 export type NodeMap = Record<string, Node>;
 
+// One schedulable unit: a plain node, or one card inside a node
+export interface ReviewItem {
+  key: string; // nodeId, or `${nodeId}::${cardKey}`
+  node: Node;
+  cardKey?: string;
+  fsrs: FSRSData;
+  logs: FSRSLogEntry[];
+}
+
 export interface SchedulingInfo {
   s: number;
   d: number;
-  interval: number; // in days
+  interval: number; // in days (fractional during learning steps)
+  state: NodeState;
+  step?: number;
+}
+
+// Where a moved node lands relative to the target: as its sibling above/below, or as its last child
+export type DropPosition = 'top' | 'bottom' | 'inside';
+
+export interface HistoryChange {
+  id: number;
+  label: string;
+  destructive: boolean; // Deletions and imports offer an "Undo" toast
 }
 
 export interface TreeContextType {
   nodes: NodeMap;
   addNode: (parentId: string, title: string, mode: 'store' | 'plan') => string;
   updateNodeTitle: (id: string, title: string) => void;
-  deleteNode: (nodeId: string) => void;
+  updateNodeContent: (id: string, content: CardContent) => void;
+  deleteNode: (nodeId: string) => void; // Moves the subtree to the trash
+  restoreNode: (nodeId: string, parentId?: string) => void;
+  purgeNode: (nodeId: string) => void;
+  emptyTrash: () => void;
+  addAttachment: (nodeId: string, file: File) => Promise<void>;
+  removeAttachment: (nodeId: string, hash: string) => void;
+  replaceNodes: (nodes: NodeMap) => void; // Restores a backup
+  setReverseCard: (nodeId: string, enabled: boolean) => void;
   toggleExpand: (id: string) => void;
-  moveNode: (sourceId: string, targetId: string, position: 'top' | 'bottom') => void;
-  reviewComplete: (id: string, s: number, d: number, interval: number, rating: Rating) => void;
-  addRetroactiveLog: (id: string, rating: Rating, date: number) => void;
-  deleteLog: (nodeId: string, logId: string) => void;
+  revealNode: (id: string) => void; // Expands every ancestor; not an undo step
+  moveNode: (sourceId: string, targetId: string, position: DropPosition) => void;
+  // Bulk actions over a multi-selection, each undone as one step
+  moveNodes: (ids: string[], parentId: string) => void;
+  deleteNodes: (ids: string[]) => void;
+  // Lifecycle: recorded as history entries, see FSRSLifecycleLog
+  suspendNodes: (ids: string[], options?: LifecycleOptions) => void;
+  unsuspendNodes: (ids: string[], options?: LifecycleOptions) => void;
+  resetNodes: (ids: string[], options?: LifecycleOptions) => void;
+  rescheduleNodes: (ids: string[], due: number) => void;
+  addTag: (ids: string[], tag: string) => void;
+  removeTag: (ids: string[], tag: string) => void;
+  // cardKey addresses one card inside the node (a cloze); omitted for plain nodes
+  reviewComplete: (id: string, schedule: SchedulingInfo, rating: Rating, cardKey?: string) => string; // Returns the new log id
+  undoReview: (id: string, logId: string, previous: FSRSData, cardKey?: string) => void;
+  addRetroactiveLog: (id: string, rating: Rating, date: number, cardKey?: string) => void;
+  deleteLog: (nodeId: string, logId: string, cardKey?: string) => void;
+  parameters: FSRSParameters;
+  updateParameters: (params: Partial<FSRSParameters>) => void;
+  updatePreset: (id: string, preset: SchedulingPreset | null) => void;
+  settings: ProfileSettings;
+  updateSettings: (settings: Partial<ProfileSettings>) => void;
+  savedFilters: SavedFilter[];
+  backlinks: Record<string, string[]>; // Node id -> ids of the nodes linking to it with [[...]]
+  saveFilter: (filter: SavedFilter) => void; // Adds, or replaces the filter with the same id
+  deleteFilter: (id: string) => void;
   draggingId: string | null;
   setDraggingId: (id: string | null) => void;
+  // Global history of tree edits (reviews have their own undo in the deck)
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  lastChange: HistoryChange | null; // What undo would revert
+  nextChange: HistoryChange | null; // What redo would re-apply
 }
 
 // --- Calendar & Simulation Types ---
@@ -61,6 +217,7 @@ export type ReviewType = 'confirmed' | 'projected';
 
 export interface CalendarEvent {
   nodeId: string;
+  cardKey?: string;
   title: string;
   date: number; // Timestamp
   type: ReviewType;
@@ -0,0 +1,87 @@
+import { Attachment, NodeMap } from '../types';
+
+/**
+ * ATTACHMENT STORE
+ * Media bytes are kept in IndexedDB, keyed by their SHA-256 hash, so the
+ * localStorage tree only carries small references and identical files are stored once.
+ */
+
+const DB_NAME = 'memoryflow_media';
+const STORE_NAME = 'blobs';
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+// Fired on window after a blob is written, so views waiting on a download can refresh
+export const ATTACHMENT_STORED_EVENT = 'memoryflow:attachment-stored';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = makeRequest(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const hashBlob = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const getAttachmentKind = (mimeType: string): Attachment['kind'] | null => {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  return null;
+};
+
+export const putBlob = async (hash: string, blob: Blob): Promise<void> => {
+  await runRequest('readwrite', store => store.put(blob, hash));
+  window.dispatchEvent(new CustomEvent(ATTACHMENT_STORED_EVENT, { detail: hash }));
+};
+
+export const getBlob = async (hash: string): Promise<Blob | null> => {
+  const blob = await runRequest<Blob | undefined>('readonly', store => store.get(hash));
+  return blob ?? null;
+};
+
+export const hasBlob = async (hash: string): Promise<boolean> => {
+  const count = await runRequest('readonly', store => store.count(hash));
+  return count > 0;
+};
+
+/** Stores a file and returns the reference to put on a node. */
+export const storeAttachment = async (file: File): Promise<Attachment> => {
+  const kind = getAttachmentKind(file.type);
+  if (!kind) throw new Error('只支持图片和音频文件。');
+  if (file.size > MAX_ATTACHMENT_BYTES) throw new Error('文件不能超过 10 MB。');
+
+  const hash = await hashBlob(file);
+  if (!(await hasBlob(hash))) await putBlob(hash, file);
+  return { hash, kind, mimeType: file.type, name: file.name, size: file.size };
+};
+
+/** Every attachment referenced anywhere in the tree, one entry per hash. */
+export const collectAttachments = (nodes: NodeMap): Attachment[] => {
+  const byHash = new Map<string, Attachment>();
+  Object.values(nodes).forEach(node => {
+    node.attachments?.forEach(attachment => byHash.set(attachment.hash, attachment));
+  });
+  return [...byHash.values()];
+};
@@ -0,0 +1,75 @@
+import { NodeMap } from '../types';
+import { collectAttachments, getBlob, hashBlob, putBlob } from './attachmentStore';
+
+/**
+ * BACKUP
+ * A single JSON file holding the tree and every attachment it references,
+ * base64-encoded, so a restore on another device is complete without cloud sync.
+ */
+
+const BACKUP_FORMAT = 'memoryflow-backup';
+const BACKUP_VERSION = 1;
+
+interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  nodes: NodeMap;
+  attachments: Record<string, { mimeType: string; data: string }>; // Keyed by hash
+}
+
+const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    // Strip the "data:<mime>;base64," prefix
+    reader.onload = () => resolve((reader.result as string).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const base64ToBlob = (data: string, mimeType: string): Blob => {
+  const bytes = Uint8Array.from(atob(data), char => char.charCodeAt(0));
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const createBackup = async (nodes: NodeMap): Promise<Blob> => {
+  const attachments: BackupFile['attachments'] = {};
+  for (const attachment of collectAttachments(nodes)) {
+    const blob = await getBlob(attachment.hash);
+    if (blob) attachments[attachment.hash] = { mimeType: attachment.mimeType, data: await blobToBase64(blob) };
+  }
+
+  const backup: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    nodes,
+    attachments,
+  };
+  return new Blob([JSON.stringify(backup)], { type: 'application/json' });
+};
+
+/**
+ * Reads a backup file, writes its attachments to IndexedDB and returns the tree.
+ * Attachments whose bytes do not match their hash are skipped.
+ */
+export const restoreBackup = async (file: File): Promise<NodeMap> => {
+  let backup: BackupFile;
+  try {
+    backup = JSON.parse(await file.text());
+  } catch {
+    throw new Error('无法读取备份文件。');
+  }
+  if (backup?.format !== BACKUP_FORMAT || !backup.nodes?.['root']) {
+    throw new Error('这不是 MemoryFlow 备份文件。');
+  }
+  if (backup.version > BACKUP_VERSION) {
+    throw new Error('备份文件来自更新的版本，请先升级应用。');
+  }
+
+  for (const [hash, { mimeType, data }] of Object.entries(backup.attachments ?? {})) {
+    const blob = base64ToBlob(data, mimeType);
+    if ((await hashBlob(blob)) === hash) await putBlob(hash, blob);
+  }
+  return backup.nodes;
+};
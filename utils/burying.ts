@@ -0,0 +1,50 @@
+import { ProfileSettings, ReviewItem } from '../types';
+import { isReviewLog } from '../fsrs';
+import { isLearningToday } from './learningDay';
+
+/**
+ * BURYING
+ * Siblings (nodes under one parent, e.g. the steps of a proof) and the clozes / reverse of
+ * one node give each other's answers away when they come up back to back. Once one of them
+ * is reviewed, the others are buried for the rest of the learning day: they leave today's
+ * queue with their due date untouched and come back tomorrow.
+ * Nothing is stored; burying follows from today's logs, so undoing the review unburies them.
+ */
+
+const isStepping = (item: ReviewItem) => item.fsrs.state === 'learning' || item.fsrs.state === 'relearning';
+
+const isReviewedToday = (item: ReviewItem, settings: ProfileSettings) =>
+  item.logs.some(log => isReviewLog(log) && isLearningToday(log.reviewDate, settings));
+
+/**
+ * Keys of the cards buried today. Cards already reviewed today, and cards in (re)learning
+ * steps, are never buried: their own schedule brings them back within the day.
+ */
+export const getBuriedKeys = (items: ReviewItem[], settings: ProfileSettings): Set<string> => {
+  const buried = new Set<string>();
+  if (!settings.burySiblings && !settings.buryCardSiblings) return buried;
+
+  const reviewedByParent = new Map<string, Set<string>>(); // parentId -> node ids reviewed today
+  const reviewedByNode = new Map<string, Set<string>>(); // nodeId -> item keys reviewed today
+  items.forEach(item => {
+    if (!isReviewedToday(item, settings)) return;
+    const parentId = item.node.parentId ?? '';
+    if (!reviewedByParent.has(parentId)) reviewedByParent.set(parentId, new Set());
+    reviewedByParent.get(parentId)!.add(item.node.id);
+    if (!reviewedByNode.has(item.node.id)) reviewedByNode.set(item.node.id, new Set());
+    reviewedByNode.get(item.node.id)!.add(item.key);
+  });
+
+  items.forEach(item => {
+    if (isStepping(item) || isReviewedToday(item, settings)) return;
+    const siblings = [...(reviewedByParent.get(item.node.parentId ?? '') ?? [])];
+    const cardSiblings = [...(reviewedByNode.get(item.node.id) ?? [])];
+    if (
+      (settings.burySiblings && siblings.some(id => id !== item.node.id)) ||
+      (settings.buryCardSiblings && cardSiblings.some(key => key !== item.key))
+    ) {
+      buried.add(item.key);
+    }
+  });
+  return buried;
+};
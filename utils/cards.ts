@@ -0,0 +1,123 @@
+import { CardSchedule, Node, NodeMap, ReviewItem } from '../types';
+import { getCardFront } from './treeUtils';
+import { getTrashedIds } from './trash';
+
+/**
+ * CARDS
+ * A node is a note; the cards reviewed from it are derived here.
+ * - Plain node: one forward card, scheduled on the node itself (`node.fsrs` / `node.logs`).
+ * - With `reverse` and an answer: an extra answer -> question card.
+ * - Cloze deletions ("{{c1::answer}}" or "{{c1::answer::hint}}"): one card per cloze number.
+ * Every card other than the forward one keeps its own FSRS state and logs in `node.cards`.
+ */
+
+export const REVERSE_CARD_KEY = 'reverse';
+
+const CLOZE_PATTERN = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+
+/** Cloze card keys in a text, in numeric order ('c1', 'c2', ...). */
+export const getClozeKeys = (text: string): string[] => {
+  const numbers = new Set<number>();
+  for (const match of text.matchAll(CLOZE_PATTERN)) numbers.add(parseInt(match[1], 10));
+  return [...numbers].sort((a, b) => a - b).map(n => `c${n}`);
+};
+
+/**
+ * Replaces cloze markup for display. The active cloze is masked (or bolded once revealed);
+ * every other cloze shows its answer. Without an active key all answers show.
+ */
+export const renderCloze = (text: string, activeKey?: string, revealed = false): string => {
+  return text.replace(CLOZE_PATTERN, (_, num: string, answer: string, hint?: string) => {
+    if (`c${num}` !== activeKey) return answer;
+    if (revealed) return `**${answer}**`;
+    return hint ? `**[${hint}]**` : '**[...]**';
+  });
+};
+
+export const getItemKey = (nodeId: string, cardKey?: string): string => (cardKey ? `${nodeId}::${cardKey}` : nodeId);
+
+// A cloze added after the node was created starts as a new card due with the node
+const newCardSchedule = (node: Node): CardSchedule => ({
+  fsrs: { state: 'new', s: 0, d: 0, due: node.fsrs.due, lastReview: 0 },
+  logs: [],
+});
+
+export const getCardSchedule = (node: Node, cardKey?: string): CardSchedule => {
+  if (!cardKey) return { fsrs: node.fsrs, logs: node.logs };
+  return node.cards?.[cardKey] ?? newCardSchedule(node);
+};
+
+/** Returns the node with one card's schedule replaced. */
+export const setCardSchedule = (node: Node, cardKey: string | undefined, card: CardSchedule): Node => {
+  if (!cardKey) return { ...node, fsrs: card.fsrs, logs: card.logs };
+  return { ...node, cards: { ...node.cards, [cardKey]: card } };
+};
+
+/** Every card of a node, schedulable or not. */
+export const getNodeItems = (node: Node): ReviewItem[] => {
+  const clozeKeys = getClozeKeys(getCardFront(node));
+  if (clozeKeys.length === 0) {
+    const items: ReviewItem[] = [{ key: node.id, node, fsrs: node.fsrs, logs: node.logs }];
+    if (node.reverse && node.content?.back) {
+      items.push({ key: getItemKey(node.id, REVERSE_CARD_KEY), node, cardKey: REVERSE_CARD_KEY, ...getCardSchedule(node, REVERSE_CARD_KEY) });
+    }
+    return items;
+  }
+  return clozeKeys.map(cardKey => ({ key: getItemKey(node.id, cardKey), node, cardKey, ...getCardSchedule(node, cardKey) }));
+};
+
+/** Cards suspended on their own (e.g. a leech) while their node stays active. */
+export const getSuspendedCardKeys = (node: Node): string[] =>
+  Object.entries(node.cards ?? {})
+    .filter(([, card]) => card.fsrs.state === 'suspended')
+    .map(([cardKey]) => cardKey);
+
+/**
+ * The cards that take part in scheduling: everything below root whose node
+ * is neither suspended nor in the trash. A suspended node suspends all of its clozes.
+ */
+export const getReviewItems = (nodes: NodeMap): ReviewItem[] => {
+  const trashed = getTrashedIds(nodes);
+  return Object.values(nodes)
+    .filter(node => node.parentId !== null && node.fsrs.state !== 'suspended' && !trashed.has(node.id))
+    .flatMap(getNodeItems)
+    .filter(item => item.fsrs.state !== 'suspended');
+};
+
+/** Which card of its node an item is: '正向', '反向' or '填空 N'. */
+export const getCardLabel = (item: ReviewItem): string => {
+  if (!item.cardKey) return '正向';
+  if (item.cardKey === REVERSE_CARD_KEY) return '反向';
+  return `填空 ${item.cardKey.slice(1)}`;
+};
+
+/** Compact form of getCardLabel for status chips. */
+export const getCardShortLabel = (item: ReviewItem): string => {
+  if (!item.cardKey) return '正';
+  if (item.cardKey === REVERSE_CARD_KEY) return '反';
+  return item.cardKey.slice(1);
+};
+
+/** Whether a node yields more than a single plain card. */
+export const hasMultipleCards = (items: ReviewItem[]): boolean => items.length > 1 || !!items[0]?.cardKey;
+
+/** Short label for lists and the calendar: cloze markup resolved, card named when not forward. */
+export const getItemTitle = (item: ReviewItem): string => {
+  const title = renderCloze(item.node.title);
+  return item.cardKey ? `${title} · ${getCardLabel(item)}` : title;
+};
+
+/** What a review card shows before and after the answer is revealed. */
+export const getItemFaces = (item: ReviewItem) => {
+  const front = getCardFront(item.node);
+  if (item.cardKey === REVERSE_CARD_KEY) {
+    const back = item.node.content?.back ?? '';
+    return { question: back, revealedQuestion: back, back: front, notes: item.node.content?.notes };
+  }
+  return {
+    question: renderCloze(front, item.cardKey),
+    revealedQuestion: renderCloze(front, item.cardKey, true),
+    back: item.node.content?.back,
+    notes: item.node.content?.notes,
+  };
+};
@@ -0,0 +1,146 @@
+import { NodeMap, NodeState, ProfileSettings, ReviewItem } from '../types';
+import { getInheritedTags, getSubjectId, normalizeTag } from './treeUtils';
+import { getLearningDayEnd, getLearningDayKey, getLearningDayStart } from './learningDay';
+import { getLeechLapses } from './leeches';
+
+/**
+ * FILTERS
+ * A filter expression is a list of space-separated terms that must all hold:
+ *
+ *   #formula, tag:exam-1,weak   tagged (on the node or an ancestor) with any of the tags
+ *   subject:数学                 in the subject with that title
+ *   state:new,review,due        in any of the states; 'due' means due by the end of today
+ *   due:3  due:-7..0  due:1..   due within learning days from today (0 = today, negative = overdue)
+ *   is:leech                    a leech under the profile's leech settings (utils/leeches.ts)
+ *   -term                       negates a term
+ *   anything else               contained in the title
+ *
+ * Values with spaces are quoted: subject:"计算机 科学".
+ */
+
+type StateValue = Exclude<NodeState, 'suspended'> | 'due';
+
+type FilterTerm =
+  | { kind: 'tag' | 'subject' | 'title'; values: string[]; negate: boolean }
+  | { kind: 'state'; values: StateValue[]; negate: boolean }
+  | { kind: 'due'; min?: number; max?: number; negate: boolean }
+  | { kind: 'leech'; negate: boolean };
+
+export interface ParsedFilter {
+  terms: FilterTerm[];
+  errors: string[]; // Terms that could not be read; they are left out of the filter
+}
+
+const STATES: StateValue[] = ['new', 'learning', 'review', 'relearning', 'due'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TOKEN = /-?(?:[^\s":]+:)?(?:"[^"]*"|[^\s"]+)/g;
+
+const splitValues = (value: string): string[] => value.split(',').map(v => v.trim()).filter(Boolean);
+
+// 'N' is everything up to N days out; 'a..b', 'a..' and '..b' are ranges
+const parseDueRange = (value: string): { min?: number; max?: number } | null => {
+  const toDay = (text: string) => (text === '' ? undefined : /^-?\d+$/.test(text) ? Number(text) : NaN);
+  const [from, to] = value.includes('..') ? value.split('..') : ['', value];
+  const min = toDay(from);
+  const max = toDay(to);
+  if (Number.isNaN(min) || Number.isNaN(max) || (min === undefined && max === undefined)) return null;
+  return { min, max };
+};
+
+export const parseFilter = (expression: string): ParsedFilter => {
+  const terms: FilterTerm[] = [];
+  const errors: string[] = [];
+
+  for (const [token] of expression.matchAll(TOKEN)) {
+    const negate = token.startsWith('-') && token.length > 1;
+    const body = negate ? token.slice(1) : token;
+    const colon = body.startsWith('"') ? -1 : body.indexOf(':');
+    const key = colon === -1 ? '' : body.slice(0, colon).toLowerCase();
+    const value = (colon === -1 ? body : body.slice(colon + 1)).replace(/^"|"$/g, '');
+
+    if (colon === -1 && value.startsWith('#')) {
+      terms.push({ kind: 'tag', values: splitValues(value).map(normalizeTag), negate });
+    } else if (colon === -1) {
+      terms.push({ kind: 'title', values: [value.toLowerCase()], negate });
+    } else if (key === 'tag') {
+      terms.push({ kind: 'tag', values: splitValues(value).map(normalizeTag), negate });
+    } else if (key === 'subject') {
+      terms.push({ kind: 'subject', values: splitValues(value).map(v => v.toLowerCase()), negate });
+    } else if (key === 'state') {
+      const values = splitValues(value) as StateValue[];
+      const unknown = values.filter(v => !STATES.includes(v));
+      if (unknown.length > 0 || values.length === 0) errors.push(`未知状态「${token}」`);
+      else terms.push({ kind: 'state', values, negate });
+    } else if (key === 'due') {
+      const range = parseDueRange(value);
+      if (range) terms.push({ kind: 'due', ...range, negate });
+      else errors.push(`无效的到期范围「${token}」`);
+    } else if (key === 'is' && value.toLowerCase() === 'leech') {
+      terms.push({ kind: 'leech', negate });
+    } else {
+      errors.push(`未知条件「${token}」`);
+    }
+  }
+
+  return { terms, errors };
+};
+
+/**
+ * Compiles an expression into a predicate over review items. Tags and subjects are
+ * looked up once per node, so one predicate can run over the whole deck.
+ */
+export const createFilterPredicate = (
+  nodes: NodeMap,
+  expression: string,
+  settings: ProfileSettings,
+  now: number
+): ((item: ReviewItem) => boolean) => {
+  const { terms } = parseFilter(expression);
+  if (terms.length === 0) return () => true;
+
+  const todayKey = getLearningDayKey(now, settings);
+  const todayStart = getLearningDayStart(todayKey, settings);
+  const tomorrowStart = getLearningDayEnd(todayKey, settings) + 1;
+  const tagCache = new Map<string, Set<string>>();
+  const subjectCache = new Map<string, string>();
+
+  const getTags = (nodeId: string) => {
+    if (!tagCache.has(nodeId)) tagCache.set(nodeId, new Set(getInheritedTags(nodes, nodeId)));
+    return tagCache.get(nodeId)!;
+  };
+  const getSubject = (nodeId: string) => {
+    if (!subjectCache.has(nodeId)) {
+      const subjectId = getSubjectId(nodes, nodeId);
+      subjectCache.set(nodeId, subjectId ? nodes[subjectId].title.trim().toLowerCase() : '');
+    }
+    return subjectCache.get(nodeId)!;
+  };
+  // Whole learning days between today and the day the card is due
+  const getDueOffset = (due: number) =>
+    Math.round((getLearningDayStart(getLearningDayKey(due, settings), settings) - todayStart) / DAY_MS);
+
+  const test = (term: FilterTerm, item: ReviewItem): boolean => {
+    switch (term.kind) {
+      case 'tag':
+        return term.values.some(tag => getTags(item.node.id).has(tag));
+      case 'subject':
+        return term.values.includes(getSubject(item.node.id));
+      case 'title':
+        return item.node.title.toLowerCase().includes(term.values[0]);
+      case 'state':
+        return term.values.some(state =>
+          state === 'due' ? item.fsrs.state !== 'new' && item.fsrs.due < tomorrowStart : item.fsrs.state === state
+        );
+      case 'due': {
+        const offset = getDueOffset(item.fsrs.due);
+        return (term.min === undefined || offset >= term.min) && (term.max === undefined || offset <= term.max);
+      }
+      case 'leech':
+        return getLeechLapses(nodes, item, settings) !== null;
+    }
+  };
+
+  return item => terms.every(term => test(term, item) !== term.negate);
+};
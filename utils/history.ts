@@ -0,0 +1,98 @@
+import { HistoryChange, Node, NodeMap } from '../types';
+
+/**
+ * HISTORY
+ * Every recorded tree edit is stored as a command: the nodes it touched, before
+ * and after. Undo/redo re-apply only the fields the command changed on top of the
+ * current tree, so edits that were not recorded (reviews, navigation) survive, on the
+ * same node too. An unrecorded edit to a field a command changed would be overwritten,
+ * so such commands are dropped instead (see dropConflicts).
+ */
+
+// Node values by id; `undefined` means the node did not exist
+export type NodePatch = Record<string, Node | undefined>;
+
+export interface HistoryEntry extends HistoryChange {
+  coalesceKey?: string; // Consecutive entries with the same key merge (e.g. typing a title)
+  before: NodePatch;
+  after: NodePatch;
+}
+
+export const MAX_HISTORY = 100;
+
+/** The nodes that differ between two trees. Nodes are compared by reference. */
+export const diffNodes = (prev: NodeMap, next: NodeMap): { before: NodePatch; after: NodePatch } | null => {
+  const before: NodePatch = {};
+  const after: NodePatch = {};
+  const ids = new Set([...Object.keys(prev), ...Object.keys(next)]);
+  ids.forEach(id => {
+    if (prev[id] !== next[id]) {
+      before[id] = prev[id];
+      after[id] = next[id];
+    }
+  });
+  return Object.keys(before).length > 0 ? { before, after } : null;
+};
+
+// View state: an undo that flips it back loses nothing, so it never makes a conflict
+const VIEW_FIELDS: (keyof Node)[] = ['isExpanded'];
+
+/** The fields that differ between two versions of a node. */
+const getChangedFields = (a: Node, b: Node): (keyof Node)[] =>
+  [...new Set([...Object.keys(a), ...Object.keys(b)] as (keyof Node)[])].filter(key => a[key] !== b[key]);
+
+/**
+ * Moves the tree from one side of a command to the other. Created and removed nodes are
+ * swapped whole; for the rest only the fields that differ between the sides are written.
+ */
+export const applyPatch = (nodes: NodeMap, from: NodePatch, to: NodePatch): NodeMap => {
+  const next = { ...nodes };
+  Object.entries(to).forEach(([id, node]) => {
+    const source = from[id];
+    const current = next[id];
+    if (!node) {
+      delete next[id];
+    } else if (!source || !current) {
+      next[id] = node;
+    } else {
+      const patched = { ...current } as Record<keyof Node, unknown>;
+      getChangedFields(source, node).forEach(key => {
+        if (node[key] === undefined) delete patched[key];
+        else patched[key] = node[key];
+      });
+      next[id] = patched as Node;
+    }
+  });
+  return next;
+};
+
+/**
+ * Removes the commands that an unrecorded change conflicts with: those that created,
+ * removed or changed a field that the change also touched on the same node.
+ */
+export const dropConflicts = (stack: HistoryEntry[], change: { before: NodePatch; after: NodePatch }): HistoryEntry[] => {
+  const touched = new Map<string, Set<keyof Node> | null>(); // null: the node itself came or went
+  Object.keys(change.after).forEach(id => {
+    const before = change.before[id];
+    const after = change.after[id];
+    const fields = before && after ? getChangedFields(before, after).filter(key => !VIEW_FIELDS.includes(key)) : null;
+    if (!fields || fields.length > 0) touched.set(id, fields && new Set(fields));
+  });
+  const conflicts = (entry: HistoryEntry) => Object.keys(entry.after).some(id => {
+    if (!touched.has(id)) return false;
+    const fields = touched.get(id);
+    const before = entry.before[id];
+    const after = entry.after[id];
+    if (!fields || !before || !after) return true;
+    return getChangedFields(before, after).some(key => fields.has(key));
+  });
+  const kept = stack.filter(entry => !conflicts(entry));
+  return kept.length === stack.length ? stack : kept;
+};
+
+/** Folds a follow-up change into the entry it continues. */
+export const mergeEntries = (earlier: HistoryEntry, later: { before: NodePatch; after: NodePatch }): HistoryEntry => ({
+  ...earlier,
+  before: { ...later.before, ...earlier.before },
+  after: { ...earlier.after, ...later.after },
+});
@@ -0,0 +1,108 @@
+import { ProfileSettings } from '../types';
+
+/**
+ * LEARNING DAY
+ * A learning day starts at `dayStartHour` (wall clock, in the chosen time zone)
+ * instead of midnight, so a late-night session still counts as "today".
+ * Every place that groups reviews by day goes through these helpers.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const getDeviceTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// The wall-clock time in `timeZone`, expressed as if it were a UTC timestamp
+const wallClock = (timestamp: number, timeZone: string): number => {
+  const parts: Record<string, number> = {};
+  getFormatter(timeZone).formatToParts(timestamp).forEach(({ type, value }) => {
+    if (type !== 'literal') parts[type] = parseInt(value, 10);
+  });
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+};
+
+const toKey = (utcTimestamp: number): string => new Date(utcTimestamp).toISOString().slice(0, 10);
+
+const parseKey = (dateKey: string): number => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+/** 'yyyy-MM-dd' of the learning day a timestamp belongs to. */
+export const getLearningDayKey = (timestamp: number, settings: ProfileSettings): string => {
+  return toKey(wallClock(timestamp, settings.timeZone) - settings.dayStartHour * HOUR_MS);
+};
+
+/** Shifts a 'yyyy-MM-dd' key by whole days. */
+export const addDaysToKey = (dateKey: string, days: number): string => {
+  return toKey(parseKey(dateKey) + days * DAY_MS);
+};
+
+/** Timestamp of a wall-clock time on a given date in the chosen time zone. */
+const wallClockToTimestamp = (dateKey: string, hour: number, settings: ProfileSettings): number => {
+  const target = parseKey(dateKey) + hour * HOUR_MS;
+  // Two passes settle the offset across DST transitions
+  let timestamp = target;
+  for (let i = 0; i < 2; i++) {
+    timestamp += target - wallClock(timestamp, settings.timeZone);
+  }
+  return timestamp;
+};
+
+/** First millisecond of a learning day. */
+export const getLearningDayStart = (dateKey: string, settings: ProfileSettings): number => {
+  return wallClockToTimestamp(dateKey, settings.dayStartHour, settings);
+};
+
+/** Last millisecond of a learning day. */
+export const getLearningDayEnd = (dateKey: string, settings: ProfileSettings): number => {
+  return getLearningDayStart(addDaysToKey(dateKey, 1), settings) - 1;
+};
+
+export const isSameLearningDay = (a: number, b: number, settings: ProfileSettings): boolean => {
+  return getLearningDayKey(a, settings) === getLearningDayKey(b, settings);
+};
+
+export const isLearningToday = (timestamp: number, settings: ProfileSettings): boolean => {
+  return isSameLearningDay(timestamp, Date.now(), settings);
+};
+
+/** True between midnight and the rollover hour, when the learning day lags the calendar. */
+export const isBeforeDayStart = (timestamp: number, settings: ProfileSettings): boolean => {
+  return toKey(wallClock(timestamp, settings.timeZone)) !== getLearningDayKey(timestamp, settings);
+};
+
+/** A local Date for a key, for display with date-fns. */
+export const keyToDate = (dateKey: string): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
@@ -0,0 +1,61 @@
+import { FSRSData, FSRSLogEntry, FSRSParameters, NodeMap, ProfileSettings, ReviewItem } from '../types';
+import { computeNextSchedule, getReviewsSinceReset } from '../fsrs';
+import { resolveParameters } from './presets';
+import { getNodeItems } from './cards';
+import { getTrashedIds } from './trash';
+
+/**
+ * LEECHES
+ * A leech is a card that keeps being forgotten: at least `leechLapses` lapses since its
+ * last reset, with difficulty up at `leechDifficulty` (the model caps it at 10).
+ * What happens when a card turns into one is `leechAction`:
+ * - 'tag':     the node gets the #leech tag
+ * - 'suspend': the card is suspended, like the lifecycle action; the node's other cards go on
+ * - 'filter':  nothing is changed; the saved filter `is:leech` collects them
+ */
+
+export const LEECH_TAG = 'leech';
+export const LEECH_FILTER_EXPRESSION = 'is:leech';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LeechInfo {
+  item: ReviewItem;
+  lapses: number;
+}
+
+/**
+ * Agains on a card that had graduated: in review, or relearning and back on a later day.
+ * The history is replayed because the log snapshots do not record the card's state.
+ */
+export const countLapses = (logs: FSRSLogEntry[], params: FSRSParameters): number => {
+  let state: FSRSData = { state: 'new', s: 0, d: 0, due: 0, lastReview: 0 };
+  let lapses = 0;
+  getReviewsSinceReset(logs).forEach(log => {
+    const isLaterDay = log.reviewDate - state.lastReview >= DAY_MS;
+    if (log.rating === 1 && (state.state === 'review' || (state.state === 'relearning' && isLaterDay))) lapses++;
+    const next = computeNextSchedule(state, log.rating, log.reviewDate, params);
+    state = { state: next.state, step: next.step, s: next.s, d: next.d, lastReview: log.reviewDate, due: 0 };
+  });
+  return lapses;
+};
+
+/** The card's lapse count when it is a leech, null otherwise. */
+export const getLeechLapses = (nodes: NodeMap, item: ReviewItem, settings: ProfileSettings): number | null => {
+  if (item.fsrs.d < settings.leechDifficulty) return null;
+  const lapses = countLapses(item.logs, resolveParameters(nodes, item.node.id));
+  return lapses >= settings.leechLapses ? lapses : null;
+};
+
+/** Every leech in the live tree, suspended ones included, most lapses first. */
+export const getLeeches = (nodes: NodeMap, settings: ProfileSettings): LeechInfo[] => {
+  const trashed = getTrashedIds(nodes);
+  return Object.values(nodes)
+    .filter(node => node.parentId !== null && !trashed.has(node.id))
+    .flatMap(getNodeItems)
+    .flatMap(item => {
+      const lapses = getLeechLapses(nodes, item, settings);
+      return lapses === null ? [] : [{ item, lapses }];
+    })
+    .sort((a, b) => b.lapses - a.lapses);
+};
@@ -0,0 +1,109 @@
+import { CardContent, Node, NodeMap } from '../types';
+import { getTrashedIds } from './trash';
+import { getSubjectId } from './treeUtils';
+import { renderCloze } from './cards';
+
+/**
+ * LINKS
+ * `[[标题]]` in a title or in card content links to another node. When the text is
+ * saved the link is pinned to the node's id as `[[标题|id]]`, so it keeps pointing at
+ * the same node through moves; renaming the target rewrites the label in place.
+ */
+
+export const WIKI_LINK = /\[\[([^[\]|\n]+?)(?:\|([^[\]|\n]+))?\]\]/g;
+
+// Node ids -> ids of the nodes whose text links to them
+export type BacklinkIndex = Record<string, string[]>;
+
+const getTexts = (node: Node): string[] =>
+  [node.title, node.content?.front, node.content?.back, node.content?.notes].filter((text): text is string => !!text);
+
+/** Link labels are plain text: cloze markup and links resolved, link syntax characters dropped. */
+export const toLinkLabel = (title: string): string =>
+  renderCloze(title).replace(WIKI_LINK, '$1').replace(/[[\]|\n]/g, '').trim();
+
+/**
+ * The live node a bare `[[label]]` means: a title match, preferring the linking
+ * node's own subject when several nodes share the title.
+ */
+export const findLinkTarget = (nodes: NodeMap, label: string, fromId: string): Node | undefined => {
+  const trashed = getTrashedIds(nodes);
+  const wanted = label.trim();
+  const matches = Object.values(nodes).filter(
+    node => node.parentId !== null && node.id !== fromId && !trashed.has(node.id) && toLinkLabel(node.title) === wanted
+  );
+  if (matches.length <= 1) return matches[0];
+  const subjectId = getSubjectId(nodes, fromId);
+  return matches.find(node => getSubjectId(nodes, node.id) === subjectId) ?? matches[0];
+};
+
+/** Pins every bare link in text that resolves to a node; unresolved ones stay as typed. */
+export const resolveLinks = (nodes: NodeMap, text: string, fromId: string): string =>
+  text.replace(WIKI_LINK, (whole, label: string, id?: string) => {
+    if (id) return whole;
+    const target = findLinkTarget(nodes, label, fromId);
+    return target ? `[[${label.trim()}|${target.id}]]` : whole;
+  });
+
+/** Rewrites the label of every link to targetId. */
+export const relabelLinks = (text: string, targetId: string, label: string): string =>
+  text.replace(WIKI_LINK, (whole, _label: string, id?: string) => (id === targetId ? `[[${label}|${id}]]` : whole));
+
+/** Ids a node links to (pinned links only). */
+export const getLinkTargets = (node: Node): string[] => {
+  const ids = new Set<string>();
+  getTexts(node).forEach(text => {
+    for (const match of text.matchAll(WIKI_LINK)) {
+      if (match[2]) ids.add(match[2]);
+    }
+  });
+  ids.delete(node.id);
+  return [...ids];
+};
+
+export const linksTo = (node: Node, targetId: string): boolean => getLinkTargets(node).includes(targetId);
+
+/** Who links to whom, over live nodes only. */
+export const getBacklinkIndex = (nodes: NodeMap): BacklinkIndex => {
+  const trashed = getTrashedIds(nodes);
+  const index: BacklinkIndex = {};
+  Object.values(nodes).forEach(node => {
+    if (trashed.has(node.id)) return;
+    getLinkTargets(node).forEach(targetId => {
+      (index[targetId] ??= []).push(node.id);
+    });
+  });
+  return index;
+};
+
+// Rewrites every side of the content; the same object comes back when nothing changed
+const mapContent = (content: CardContent | undefined, rewrite: (text: string) => string): CardContent | undefined => {
+  if (!content) return content;
+  let changed = false;
+  const next: CardContent = {};
+  (Object.keys(content) as (keyof CardContent)[]).forEach(key => {
+    const text = content[key];
+    next[key] = text ? rewrite(text) : text;
+    if (next[key] !== text) changed = true;
+  });
+  return changed ? next : content;
+};
+
+/** Pins the bare links in a node's title and content; returns the node itself when nothing changed. */
+export const resolveNodeLinks = (nodes: NodeMap, node: Node): Node => {
+  const title = resolveLinks(nodes, node.title, node.id);
+  const content = mapContent(node.content, text => resolveLinks(nodes, text, node.id));
+  return title === node.title && content === node.content ? node : { ...node, title, content };
+};
+
+/** Relabels links to targetId across the tree after it was renamed. Mutates next. */
+export const relabelBacklinks = (next: NodeMap, targetId: string): void => {
+  const label = toLinkLabel(next[targetId].title);
+  if (!label) return;
+  Object.values(next).forEach(node => {
+    if (node.id === targetId || !linksTo(node, targetId)) return;
+    const title = relabelLinks(node.title, targetId, label);
+    const content = mapContent(node.content, text => relabelLinks(text, targetId, label));
+    if (title !== node.title || content !== node.content) next[node.id] = { ...node, title, content };
+  });
+};
@@ -0,0 +1,170 @@
+import { computeNextSchedule, currentRetrievability, isReviewLog } from '../fsrs';
+import { FSRSData, FSRSParameters, NodeMap, Rating } from '../types';
+import { getReviewItems } from './cards';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// One card's review history, reduced to what the model needs
+export type ReviewSequence = { rating: Rating; reviewDate: number }[];
+
+export interface OptimizerMetrics {
+  logLoss: number;
+  rmse: number;
+  sampleCount: number;
+}
+
+export interface OptimizerResult {
+  w: number[];
+  before: OptimizerMetrics;
+  after: OptimizerMetrics;
+}
+
+// Messages exchanged with workers/optimizer.worker.ts
+export interface OptimizerRequest {
+  sequences: ReviewSequence[];
+  params: FSRSParameters; // The active set: its weights are the starting point, its steps the schedule replayed
+}
+
+export type OptimizerResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'done'; result: OptimizerResult }
+  | { type: 'error'; message: string };
+
+export const MIN_SAMPLES = 32;
+
+// Keeps every weight inside a range where the formulas stay well-behaved
+const WEIGHT_BOUNDS: [number, number][] = [
+  [0.01, 100], [0.01, 100], [0.01, 100], [0.01, 100],
+  [1, 10], [0.01, 5], [0.01, 5], [0, 0.75],
+  [0, 4.5], [0, 0.8], [0.01, 3.5], [0.01, 5],
+  [0.01, 0.5], [0.01, 0.9], [0.01, 4], [0, 1],
+  [1, 6], [0, 2], [0, 2],
+];
+
+const clampWeights = (w: number[]): number[] =>
+  w.map((value, i) => {
+    const [min, max] = WEIGHT_BOUNDS[i] ?? [-Infinity, Infinity];
+    return Math.min(max, Math.max(min, value));
+  });
+
+/**
+ * Collects every card's review history with at least two entries.
+ * A single review carries no recall outcome to learn from.
+ * A reset starts a fresh sequence; suspensions do not interrupt one.
+ * Cards in the trash, or suspended, stay out like they do from the queue.
+ */
+export const buildTrainingSet = (nodes: NodeMap): ReviewSequence[] => {
+  return getReviewItems(nodes)
+    .flatMap(item => {
+      const sequences: ReviewSequence[] = [[]];
+      [...item.logs]
+        .sort((a, b) => a.reviewDate - b.reviewDate)
+        .forEach(log => {
+          if (isReviewLog(log)) sequences[sequences.length - 1].push({ rating: log.rating, reviewDate: log.reviewDate });
+          else if (log.action === 'reset') sequences.push([]);
+        });
+      return sequences;
+    })
+    .filter(sequence => sequence.length > 1);
+};
+
+/**
+ * Replays each sequence with the given weights and scores the predicted
+ * retrievability against whether the card was actually recalled.
+ * Same-day reviews update the state but are not scored.
+ * The replay uses the user's own parameters (algorithm version, learning and
+ * relearning steps) with only the weights swapped in.
+ */
+export const evaluateWeights = (sequences: ReviewSequence[], w: number[], baseParams: FSRSParameters): OptimizerMetrics => {
+  const params: FSRSParameters = { ...baseParams, w };
+  let lossSum = 0;
+  let squaredErrorSum = 0;
+  let sampleCount = 0;
+
+  for (const sequence of sequences) {
+    let state: FSRSData = { state: 'new', s: 0, d: 0, due: 0, lastReview: 0 };
+
+    for (const review of sequence) {
+      if (state.s > 0) {
+        const elapsedDays = (review.reviewDate - state.lastReview) / DAY_MS;
+        if (elapsedDays >= 1) {
+          const p = Math.min(1 - 1e-6, Math.max(1e-6, currentRetrievability(state.s, elapsedDays, params)));
+          const recalled = review.rating > 1 ? 1 : 0;
+          lossSum += -(recalled * Math.log(p) + (1 - recalled) * Math.log(1 - p));
+          squaredErrorSum += (recalled - p) ** 2;
+          sampleCount++;
+        }
+      }
+
+      const schedule = computeNextSchedule(state, review.rating, review.reviewDate, params);
+      state = { state: schedule.state, step: schedule.step, s: schedule.s, d: schedule.d, due: 0, lastReview: review.reviewDate };
+    }
+  }
+
+  if (sampleCount === 0) return { logLoss: 0, rmse: 0, sampleCount: 0 };
+  return {
+    logLoss: lossSum / sampleCount,
+    rmse: Math.sqrt(squaredErrorSum / sampleCount),
+    sampleCount,
+  };
+};
+
+/**
+ * Fits the weights by minimizing log-loss with Adam over
+ * finite-difference gradients. Deterministic for a given input.
+ */
+export const optimizeWeights = (
+  sequences: ReviewSequence[],
+  params: FSRSParameters,
+  onProgress?: (progress: number) => void,
+  iterations = 60
+): OptimizerResult => {
+  const initialW = params.w;
+  const before = evaluateWeights(sequences, initialW, params);
+  if (before.sampleCount < MIN_SAMPLES) {
+    throw new Error(`至少需要 ${MIN_SAMPLES} 条间隔一天以上的复习记录，当前只有 ${before.sampleCount} 条。`);
+  }
+
+  const learningRate = 0.05;
+  const beta1 = 0.9;
+  const beta2 = 0.999;
+  const epsilon = 1e-8;
+
+  let w = clampWeights(initialW);
+  let best = { w, loss: evaluateWeights(sequences, w, params).logLoss };
+  const m = new Array(w.length).fill(0);
+  const v = new Array(w.length).fill(0);
+
+  for (let t = 1; t <= iterations; t++) {
+    const baseLoss = evaluateWeights(sequences, w, params).logLoss;
+
+    // Forward differences, step relative to each weight's magnitude
+    const gradient = w.map((value, i) => {
+      const h = Math.max(Math.abs(value), 0.1) * 1e-2;
+      const probe = [...w];
+      probe[i] = value + h;
+      return (evaluateWeights(sequences, probe, params).logLoss - baseLoss) / h;
+    });
+
+    w = clampWeights(w.map((value, i) => {
+      m[i] = beta1 * m[i] + (1 - beta1) * gradient[i];
+      v[i] = beta2 * v[i] + (1 - beta2) * gradient[i] ** 2;
+      const mHat = m[i] / (1 - beta1 ** t);
+      const vHat = v[i] / (1 - beta2 ** t);
+      // Scale the step by the weight's magnitude so large weights (w3) move too
+      return value - learningRate * Math.max(Math.abs(value), 0.1) * mHat / (Math.sqrt(vHat) + epsilon);
+    }));
+
+    const loss = evaluateWeights(sequences, w, params).logLoss;
+    if (loss < best.loss) best = { w, loss };
+
+    onProgress?.(t / iterations);
+  }
+
+  const rounded = best.w.map(value => parseFloat(value.toFixed(5)));
+  return {
+    w: rounded,
+    before,
+    after: evaluateWeights(sequences, rounded, params),
+  };
+};
@@ -0,0 +1,98 @@
+import { Node, NodeMap, ReviewItem } from '../types';
+import { resolvePreset } from './presets';
+import { getNodeItems } from './cards';
+import { isReviewLog } from '../fsrs';
+
+/**
+ * PREREQUISITES
+ * With `prerequisites` on in a preset, the tree is read as "learn the parent first":
+ * - A card is held out of the queue until its prerequisite reaches the stability threshold.
+ * - An Again on the prerequisite pulls the card's due date back to the moment of that lapse,
+ *   so it is checked again as soon as the prerequisite is solid.
+ * Both are derived from the logs, never stored, so undo and replays stay exact.
+ */
+
+export const DEFAULT_PREREQUISITE_STABILITY = 7; // days
+
+export interface PrerequisiteStatus {
+  parent: Node; // The concept this card builds on
+  threshold: number; // Stability (days) the parent needs before the card is shown
+  parentStability: number; // Weakest card of the parent; 0 while any of them is new
+  isHeld: boolean;
+  lapseAt?: number; // The parent's latest Again since this card was last reviewed
+}
+
+/**
+ * The nearest ancestor that is itself studied. Containers ('store' nodes, suspended
+ * subjects) are skipped; root ends the search.
+ */
+export const getPrerequisite = (nodes: NodeMap, nodeId: string): Node | undefined => {
+  let curr = nodes[nodeId]?.parentId ? nodes[nodes[nodeId].parentId!] : undefined;
+  while (curr && curr.parentId !== null) {
+    if (curr.fsrs.state !== 'suspended') return curr;
+    curr = nodes[curr.parentId];
+  }
+  return undefined;
+};
+
+const getStudiedItems = (node: Node): ReviewItem[] => getNodeItems(node).filter(item => item.fsrs.state !== 'suspended');
+
+/** Stability of a node's weakest card; an unreviewed card counts as 0. */
+export const getNodeStability = (node: Node): number =>
+  Math.min(...getStudiedItems(node).map(item => (item.fsrs.state === 'new' ? 0 : item.fsrs.s)));
+
+const getLatestLapse = (node: Node): number | undefined => {
+  const lapses = getStudiedItems(node).flatMap(item =>
+    item.logs.filter(log => isReviewLog(log) && log.rating === 1).map(log => log.reviewDate)
+  );
+  return lapses.length > 0 ? Math.max(...lapses) : undefined;
+};
+
+/** How the prerequisite rules apply to a card; null when they are off for it or it has no prerequisite. */
+export const getPrerequisiteStatus = (nodes: NodeMap, item: ReviewItem): PrerequisiteStatus | null => {
+  const preset = resolvePreset(nodes, item.node.id);
+  if (!preset.prerequisites) return null;
+  const parent = getPrerequisite(nodes, item.node.id);
+  if (!parent) return null;
+
+  const threshold = preset.prerequisiteStability ?? DEFAULT_PREREQUISITE_STABILITY;
+  const parentStability = getNodeStability(parent);
+  const lapse = getLatestLapse(parent);
+  return {
+    parent,
+    threshold,
+    parentStability,
+    isHeld: parentStability < threshold,
+    lapseAt: lapse !== undefined && lapse > item.fsrs.lastReview ? lapse : undefined,
+  };
+};
+
+/** The due date after a prerequisite lapse; the stored due date otherwise. */
+export const getEffectiveDue = (item: ReviewItem, status: PrerequisiteStatus | null): number =>
+  status?.lapseAt !== undefined ? Math.min(item.fsrs.due, status.lapseAt) : item.fsrs.due;
+
+/** Statuses for many cards at once, keyed by item key; cards without rules are left out. */
+export const getPrerequisiteStatuses = (nodes: NodeMap, items: ReviewItem[]): Map<string, PrerequisiteStatus> => {
+  const statuses = new Map<string, PrerequisiteStatus>();
+  items.forEach(item => {
+    const status = getPrerequisiteStatus(nodes, item);
+    if (status) statuses.set(item.key, status);
+  });
+  return statuses;
+};
+
+/** Cards whose prerequisite is this node, across the opted-in part of its subtree. */
+export const getDependents = (nodes: NodeMap, node: Node): Node[] => {
+  const result: Node[] = [];
+  const visit = (id: string) => {
+    const child = nodes[id];
+    if (!child || child.trashedAt) return;
+    if (child.fsrs.state === 'suspended') {
+      child.children.forEach(visit); // A container passes the prerequisite through
+      return;
+    }
+    if (resolvePreset(nodes, child.id).prerequisites) result.push(child);
+  };
+  node.children.forEach(visit);
+  return result;
+};
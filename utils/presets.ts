@@ -0,0 +1,163 @@
+import { FSRSParameters, Node, NodeMap, ProfileSettings, ReviewItem, SchedulingPreset } from '../types';
+import { getParameters, getSettings } from './treeUtils';
+import { isLearningToday } from './learningDay';
+import { getReviewItems } from './cards';
+import { getReviewsSinceReset } from '../fsrs';
+import { getTrashedIds } from './trash';
+
+/**
+ * Merges the presets found on the path root -> node.
+ * Closer ancestors win, so a chapter can tighten what its subject defines.
+ */
+export const resolvePreset = (nodes: NodeMap, nodeId: string): SchedulingPreset => {
+  const chain: SchedulingPreset[] = [];
+  let curr: Node | undefined = nodes[nodeId];
+  while (curr) {
+    if (curr.preset) chain.unshift(curr.preset);
+    curr = curr.parentId ? nodes[curr.parentId] : undefined;
+  }
+  return chain.reduce<SchedulingPreset>((acc, preset) => ({ ...acc, ...preset }), {});
+};
+
+/**
+ * The FSRS parameter set that applies to a node:
+ * the global set from root, with inherited preset overrides on top.
+ */
+export const resolveParameters = (nodes: NodeMap, nodeId: string): FSRSParameters => {
+  const preset = resolvePreset(nodes, nodeId);
+  const params = getParameters(nodes);
+  return {
+    ...params,
+    requestRetention: preset.requestRetention ?? params.requestRetention,
+    maximumInterval: preset.maximumInterval ?? params.maximumInterval,
+  };
+};
+
+export type LimitKind = 'new' | 'review';
+
+// One set of daily caps: the profile, or a node whose preset sets limits for its subtree
+export interface LimitScope {
+  id: string; // PROFILE_SCOPE or the preset owner's node id
+  newPerDay?: number;
+  reviewsPerDay?: number;
+}
+
+export const PROFILE_SCOPE = 'profile';
+
+// Counts per learning day, keyed `${scopeId}:${kind}`
+export type LimitUsage = Record<string, number>;
+
+const getProfileScope = (settings: ProfileSettings): LimitScope => ({
+  id: PROFILE_SCOPE,
+  newPerDay: settings.newPerDay ?? undefined,
+  reviewsPerDay: settings.reviewsPerDay ?? undefined,
+});
+
+// Reviewed today since its last reset: getTodayUsage has counted the card already
+const isStudiedToday = (item: ReviewItem, settings: ProfileSettings): boolean =>
+  getReviewsSinceReset(item.logs).some(log => isLearningToday(log.reviewDate, settings));
+
+/**
+ * Which cap a due card counts against; null when it takes no slot. Cards in their (re)learning
+ * steps and cards already studied today were counted when they came up, and must not be
+ * stranded halfway through their steps once the cap is reached.
+ */
+export const getLimitKind = (item: ReviewItem, settings: ProfileSettings): LimitKind | null => {
+  if (item.fsrs.state === 'learning' || item.fsrs.state === 'relearning') return null;
+  if (isStudiedToday(item, settings)) return null;
+  return item.fsrs.state === 'new' ? 'new' : 'review';
+};
+
+/** Every scope whose caps apply to a node: the presets along its path, then the profile. */
+export const getLimitScopes = (nodes: NodeMap, nodeId: string): LimitScope[] => {
+  const settings = getSettings(nodes);
+  const scopes: LimitScope[] = [];
+  let curr: Node | undefined = nodes[nodeId];
+  while (curr) {
+    if (curr.preset?.newPerDay !== undefined || curr.preset?.reviewsPerDay !== undefined) {
+      scopes.push({ id: curr.id, newPerDay: curr.preset.newPerDay, reviewsPerDay: curr.preset.reviewsPerDay });
+    }
+    curr = curr.parentId ? nodes[curr.parentId] : undefined;
+  }
+  scopes.push(getProfileScope(settings));
+  return scopes;
+};
+
+/**
+ * What has been studied this learning day, per scope.
+ * Each cloze counts as a card; a card first studied today (or since a reset today) counts as new.
+ * Suspended and trashed cards are left out, as everywhere the queue is built.
+ */
+export const getTodayUsage = (nodes: NodeMap): LimitUsage => {
+  const used: LimitUsage = {};
+  const settings = getSettings(nodes);
+  getReviewItems(nodes).forEach(item => {
+    if (!isStudiedToday(item, settings)) return;
+    const reviews = getReviewsSinceReset(item.logs);
+    const kind: LimitKind = isLearningToday(reviews[0].reviewDate, settings) ? 'new' : 'review';
+    getLimitScopes(nodes, item.node.id).forEach(scope => {
+      const key = `${scope.id}:${kind}`;
+      used[key] = (used[key] || 0) + 1;
+    });
+  });
+  return used;
+};
+
+/**
+ * Admits cards one at a time while every scope along their path still has room,
+ * counting each admitted card against all of them. Mutates `used`.
+ * Cards without a kind (see getLimitKind) always pass.
+ */
+export const createDailyLimiter = (nodes: NodeMap, used: LimitUsage) => {
+  const scopeCache = new Map<string, LimitScope[]>();
+  return (nodeId: string, kind: LimitKind | null): boolean => {
+    if (kind === null) return true;
+    if (!scopeCache.has(nodeId)) scopeCache.set(nodeId, getLimitScopes(nodes, nodeId));
+    const scopes = scopeCache.get(nodeId)!;
+    const fits = scopes.every(scope => {
+      const limit = kind === 'new' ? scope.newPerDay : scope.reviewsPerDay;
+      return limit === undefined || (used[`${scope.id}:${kind}`] || 0) < limit;
+    });
+    if (!fits) return false;
+    scopes.forEach(scope => {
+      const key = `${scope.id}:${kind}`;
+      used[key] = (used[key] || 0) + 1;
+    });
+    return true;
+  };
+};
+
+/**
+ * Caps a due queue by the profile's daily limits and those of every preset along each node's path.
+ * Reviews already done this learning day count against the limit; the excess stays due
+ * and is picked up on the following days.
+ */
+export const applyDailyLimits = (queue: ReviewItem[], nodes: NodeMap): ReviewItem[] => {
+  const admit = createDailyLimiter(nodes, getTodayUsage(nodes));
+  const settings = getSettings(nodes);
+  return queue.filter(item => admit(item.node.id, getLimitKind(item, settings)));
+};
+
+export interface DailyProgress {
+  scope: LimitScope;
+  newDone: number;
+  reviewDone: number;
+}
+
+/** Today's progress against the profile limits, then against every preset that sets limits. */
+export const getDailyProgress = (nodes: NodeMap): DailyProgress[] => {
+  const used = getTodayUsage(nodes);
+  const trashed = getTrashedIds(nodes);
+  const settings = getSettings(nodes);
+  const scopes: LimitScope[] = [
+    getProfileScope(settings),
+    ...Object.values(nodes)
+      .filter(node => !trashed.has(node.id) && (node.preset?.newPerDay !== undefined || node.preset?.reviewsPerDay !== undefined))
+      .map(node => ({ id: node.id, newPerDay: node.preset!.newPerDay, reviewsPerDay: node.preset!.reviewsPerDay })),
+  ];
+  return scopes.map(scope => ({
+    scope,
+    newDone: used[`${scope.id}:new`] || 0,
+    reviewDone: used[`${scope.id}:review`] || 0,
+  }));
+};
@@ -0,0 +1,208 @@
+/**
+ * RICH TEXT
+ * A small Markdown subset with TeX math and fenced code, parsed into a tree
+ * that components/RichText.tsx renders as React elements (never raw HTML),
+ * so synced content cannot inject markup.
+ */
+
+export type InlineToken =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'math'; tex: string }
+  | { type: 'strong' | 'em' | 'del'; children: InlineToken[] }
+  | { type: 'link'; href: string; children: InlineToken[] }
+  | { type: 'wikilink'; label: string; target?: string }; // [[label|nodeId]], see utils/links.ts
+
+export type BlockToken =
+  | { type: 'paragraph'; lines: InlineToken[][] }
+  | { type: 'heading'; level: 1 | 2 | 3; children: InlineToken[] }
+  | { type: 'quote'; lines: InlineToken[][] }
+  | { type: 'list'; ordered: boolean; items: InlineToken[][] }
+  | { type: 'code'; lang: string; text: string }
+  | { type: 'math'; tex: string };
+
+export type CodeToken = { kind: 'plain' | 'keyword' | 'string' | 'number' | 'comment'; text: string };
+
+// Order matters: code spans and math win over emphasis so `a*b` and $a*b$ stay literal
+const INLINE_PATTERN = new RegExp([
+  /`([^`]+)`/.source,
+  /\$\$([^$]+)\$\$/.source,
+  /\$([^\s$](?:[^$]*[^\s$])?)\$/.source,
+  /\[\[([^[\]|\n]+?)(?:\|([^[\]|\n]+))?\]\]/.source,
+  /\*\*(.+?)\*\*/.source,
+  /~~(.+?)~~/.source,
+  /\*([^\s*](?:[^*]*[^\s*])?)\*/.source,
+  /\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/.source,
+].join('|'), 'g');
+
+export const parseInline = (text: string): InlineToken[] => {
+  const tokens: InlineToken[] = [];
+  let cursor = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > cursor) tokens.push({ type: 'text', text: text.slice(cursor, index) });
+    const [, code, displayMath, math, wikiLabel, wikiTarget, strong, del, em, linkText, href] = match;
+
+    if (code !== undefined) tokens.push({ type: 'code', text: code });
+    else if (displayMath !== undefined) tokens.push({ type: 'math', tex: displayMath });
+    else if (math !== undefined) tokens.push({ type: 'math', tex: math });
+    else if (wikiLabel !== undefined) tokens.push({ type: 'wikilink', label: wikiLabel.trim(), target: wikiTarget });
+    else if (strong !== undefined) tokens.push({ type: 'strong', children: parseInline(strong) });
+    else if (del !== undefined) tokens.push({ type: 'del', children: parseInline(del) });
+    else if (em !== undefined) tokens.push({ type: 'em', children: parseInline(em) });
+    else tokens.push({ type: 'link', href, children: parseInline(linkText) });
+
+    cursor = index + match[0].length;
+  }
+
+  if (cursor < text.length) tokens.push({ type: 'text', text: text.slice(cursor) });
+  return tokens;
+};
+
+const FENCE = /^\s*```\s*([\w+#-]*)\s*$/;
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+
+export const parseBlocks = (text: string): BlockToken[] => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: BlockToken[] = [];
+  let paragraph: InlineToken[][] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) blocks.push({ type: 'paragraph', lines: paragraph });
+    paragraph = [];
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      flushParagraph();
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i])) body.push(lines[i++]);
+      blocks.push({ type: 'code', lang: fence[1].toLowerCase(), text: body.join('\n') });
+      i++; // Closing fence (or end of text)
+      continue;
+    }
+
+    if (trimmed.startsWith('$$')) {
+      flushParagraph();
+      // Single-line $$...$$ or a block running until the closing $$
+      if (trimmed.length > 4 && trimmed.endsWith('$$')) {
+        blocks.push({ type: 'math', tex: trimmed.slice(2, -2) });
+        i++;
+        continue;
+      }
+      const body: string[] = [trimmed.slice(2)];
+      i++;
+      while (i < lines.length && !lines[i].trim().endsWith('$$')) body.push(lines[i++]);
+      if (i < lines.length) body.push(lines[i].trim().slice(0, -2));
+      blocks.push({ type: 'math', tex: body.join('\n').trim() });
+      i++;
+      continue;
+    }
+
+    if (!trimmed) {
+      flushParagraph();
+      i++;
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length as 1 | 2 | 3, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      flushParagraph();
+      const quoted: InlineToken[][] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(parseInline(lines[i].match(QUOTE)![1]));
+        i++;
+      }
+      blocks.push({ type: 'quote', lines: quoted });
+      continue;
+    }
+
+    const listPattern = BULLET.test(line) ? BULLET : NUMBERED.test(line) ? NUMBERED : null;
+    if (listPattern) {
+      flushParagraph();
+      const items: InlineToken[][] = [];
+      while (i < lines.length && listPattern.test(lines[i])) {
+        items.push(parseInline(lines[i].match(listPattern)![1]));
+        i++;
+      }
+      blocks.push({ type: 'list', ordered: listPattern === NUMBERED, items });
+      continue;
+    }
+
+    paragraph.push(parseInline(line));
+    i++;
+  }
+
+  flushParagraph();
+  return blocks;
+};
+
+// --- Code highlighting ---
+
+const KEYWORDS = new Set([
+  // JavaScript / TypeScript
+  'const', 'let', 'var', 'function', 'return', 'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'break',
+  'continue', 'new', 'class', 'extends', 'import', 'export', 'from', 'default', 'async', 'await', 'try',
+  'catch', 'finally', 'throw', 'typeof', 'instanceof', 'in', 'of', 'this', 'null', 'undefined', 'true',
+  'false', 'interface', 'type', 'enum', 'implements', 'public', 'private', 'protected', 'static', 'readonly',
+  // Python
+  'def', 'lambda', 'pass', 'elif', 'with', 'as', 'yield', 'None', 'True', 'False', 'and', 'or', 'not', 'is',
+  'global', 'nonlocal', 'raise', 'except', 'assert', 'del', 'self',
+  // C family / Java / Go / Rust
+  'int', 'long', 'short', 'char', 'float', 'double', 'void', 'bool', 'boolean', 'struct', 'unsigned',
+  'signed', 'sizeof', 'include', 'define', 'template', 'typename', 'namespace', 'using', 'virtual', 'final',
+  'package', 'func', 'go', 'defer', 'chan', 'map', 'range', 'fn', 'mut', 'impl', 'trait', 'pub', 'use',
+  'match', 'loop', 'where', 'string',
+]);
+
+const HASH_COMMENT_LANGS = new Set(['py', 'python', 'sh', 'bash', 'shell', 'zsh', 'rb', 'ruby', 'r', 'yaml', 'yml', 'toml']);
+
+/** Splits code into coarse token classes; good enough for reading, not a real lexer. */
+export const highlightCode = (code: string, lang: string): CodeToken[] => {
+  const lineComment = HASH_COMMENT_LANGS.has(lang) ? '#[^\\n]*' : '\\/\\/[^\\n]*';
+  const pattern = new RegExp(
+    `(${lineComment}|\\/\\*[\\s\\S]*?\\*\\/)|("(?:\\\\.|[^"\\\\\\n])*"|'(?:\\\\.|[^'\\\\\\n])*'|\`(?:\\\\.|[^\`\\\\])*\`)|(\\b\\d+(?:\\.\\d+)?\\b)|([A-Za-z_]\\w*)`,
+    'g'
+  );
+
+  const tokens: CodeToken[] = [];
+  let cursor = 0;
+  const pushPlain = (text: string) => {
+    if (!text) return;
+    const last = tokens[tokens.length - 1];
+    if (last?.kind === 'plain') last.text += text;
+    else tokens.push({ kind: 'plain', text });
+  };
+
+  for (const match of code.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    pushPlain(code.slice(cursor, index));
+    const [text, comment, str, num, word] = match;
+    if (comment) tokens.push({ kind: 'comment', text });
+    else if (str) tokens.push({ kind: 'string', text });
+    else if (num) tokens.push({ kind: 'number', text });
+    else if (word && KEYWORDS.has(word)) tokens.push({ kind: 'keyword', text });
+    else pushPlain(text);
+    cursor = index + text.length;
+  }
+
+  pushPlain(code.slice(cursor));
+  return tokens;
+};
@@ -1,6 +1,29 @@
-import { format } from 'date-fns';
-import { computeNextSchedule } from '../fsrs';
-import { CalendarData, CalendarEvent, FSRSData, NodeMap } from '../types';
+import { computeNextSchedule, fuzzInterval, getFuzzRange } from '../fsrs';
+import { CalendarData, CalendarEvent, FSRSData, FSRSParameters, NodeMap, ProfileSettings, ReviewItem } from '../types';
+import { LimitKind, createDailyLimiter, getLimitKind, getTodayUsage, resolveParameters } from './presets';
+import { getSettings } from './treeUtils';
+import { addDaysToKey, getLearningDayKey, getLearningDayStart } from './learningDay';
+import { getItemTitle, getReviewItems } from './cards';
+import { PrerequisiteStatus, getEffectiveDue, getPrerequisiteStatuses } from './prerequisites';
+
+// Simulated stability right after a review, used to see when a prerequisite releases its children
+interface StabilityPoint {
+  date: number;
+  s: number;
+}
+
+// An event before daily limits decide which day it lands on
+interface PendingEvent {
+  event: CalendarEvent;
+  kind: LimitKind | null; // null: takes no slot, e.g. a card in its learning steps
+  isShown: boolean; // Hidden events still take up the day's capacity
+}
+
+const getDepth = (nodes: NodeMap, nodeId: string): number => {
+  let depth = 0;
+  for (let curr = nodes[nodeId]; curr?.parentId; curr = nodes[curr.parentId]) depth++;
+  return depth;
+};
 
 /**
  * PURE FUNCTION: Simulates future reviews based on current state.
@@ -11,48 +34,78 @@ import { CalendarData, CalendarEvent, FSRSData, NodeMap } from '../types';
  * 2. If user reviews on that date (Rating: Good), what is the new FSRS state?
  * 3. Based on new state, when is the NEXT review? -> 'Projected Review'
  * 4. Recursively repeat step 2 & 3 using the simulated state.
+ *
+ * `include` narrows the projection to some cards, e.g. a saved filter.
+ *
+ * Prerequisite rules (utils/prerequisites.ts) carry over: a held card's first review waits
+ * for the simulated review at which its prerequisite reaches the threshold, so prerequisites
+ * are projected first.
+ *
+ * Daily limits (utils/presets.ts) apply last, as in the deck: each day takes the events that
+ * fit, and the excess moves on to the following day. Overdue cards are shown today, so they
+ * are listed under today. Capped days all look alike, so the load balancer counts raw due
+ * dates instead (getDueCounts).
  */
 export const generateReviewSchedule = (
   nodes: NodeMap, 
-  daysToProject: number
+  daysToProject: number,
+  include?: (item: ReviewItem) => boolean
 ): CalendarData => {
   const schedule: CalendarData = {};
+  const settings = getSettings(nodes);
   const now = Date.now();
   const rangeEnd = now + (daysToProject * 24 * 60 * 60 * 1000);
   
-  const addToSchedule = (timestamp: number, event: CalendarEvent) => {
-    const dateKey = format(timestamp, 'yyyy-MM-dd');
-    if (!schedule[dateKey]) {
-      schedule[dateKey] = [];
-    }
-    schedule[dateKey].push(event);
+  const pending: PendingEvent[] = [];
+
+  // Cloze nodes expand into one entry per cloze, each on its own schedule
+  const items = getReviewItems(nodes);
+  const prerequisites = getPrerequisiteStatuses(nodes, items);
+  const parentIds = new Set([...prerequisites.values()].map(status => status.parent.id));
+  const stabilityChains: Record<string, StabilityPoint[][]> = {}; // One chain per card of each prerequisite
+
+  // When every card of the prerequisite has reached the threshold; Infinity if not within range
+  const getReleaseDate = (status: PrerequisiteStatus): number => {
+    const releases = (stabilityChains[status.parent.id] ?? []).map(chain =>
+      chain.find(point => point.s >= status.threshold)?.date ?? Infinity
+    );
+    return Math.max(now, ...releases);
   };
 
-  const allNodes = Object.values(nodes);
+  // Prerequisites sit higher in the tree, so projecting by depth simulates them first
+  const ordered = items
+    .map(item => ({ item, depth: getDepth(nodes, item.node.id) }))
+    .sort((a, b) => a.depth - b.depth)
+    .map(({ item }) => item);
 
-  for (const node of allNodes) {
-    // Skip invalid nodes
-    if (node.id === 'root' || node.fsrs.state === 'suspended' || !node.parentId) continue;
+  for (const item of ordered) {
+    const { node, cardKey } = item;
+    const isShown = !include || include(item);
+    let chain: StabilityPoint[] | null = null;
+    if (parentIds.has(node.id)) {
+      chain = item.fsrs.state === 'new' ? [] : [{ date: now, s: item.fsrs.s }];
+      (stabilityChains[node.id] ??= []).push(chain);
+    }
+    // Cards outside the filter are still simulated: they use up daily limits, and others may wait on them
+    const title = getItemTitle(item);
 
     // ---------------------------------------------
     // STEP 1: Confirmed Review (The Real Next Due)
     // ---------------------------------------------
-    const currentDue = node.fsrs.due;
+    const status = prerequisites.get(item.key) ?? null;
+    const effectiveDue = getEffectiveDue(item, status);
+    const currentDue = status?.isHeld ? Math.max(effectiveDue, getReleaseDate(status)) : effectiveDue;
     
     // For simulation, if a card is overdue, we assume it gets reviewed TODAY.
     // If it's due in the future, we assume it gets reviewed ON TIME.
     const effectiveReviewDate = Math.max(currentDue, now);
 
     // Only display 'Confirmed' if it's within our viewing range
-    // (Note: Overdue cards effectively appear on "Today" in this logic if we visualized them by dateKey, 
-    // but here we store them by their *due* date for the calendar. 
-    // We will stick to adding it if currentDue <= rangeEnd.)
     if (currentDue <= rangeEnd) {
-       addToSchedule(currentDue, {
-        nodeId: node.id,
-        title: node.title,
-        date: currentDue,
-        type: 'confirmed'
+       pending.push({
+        event: { nodeId: node.id, cardKey, title, date: currentDue, type: 'confirmed' },
+        kind: getLimitKind(item, settings),
+        isShown
       });
     } else {
         // If the *first* review is already outside the range, we don't need to project anything.
@@ -63,8 +116,11 @@ export const generateReviewSchedule = (
     // STEP 2: Projected Reviews (Iterative FSRS)
     // ---------------------------------------------
     
+    // Each node simulates under the parameters its subject preset resolves to
+    const params = resolveParameters(nodes, node.id);
+
     // Initialize simulation with the REAL current state
-    let simulatedState: FSRSData = { ...node.fsrs };
+    let simulatedState: FSRSData = { ...item.fsrs };
     
     // 'lastSimulatedReviewDate' tracks when the PREVIOUS review happened in our simulation chain.
     // Start with the confirmed review date.
@@ -76,7 +132,8 @@ export const generateReviewSchedule = (
     while (safetyCounter < 365) { 
         // A. Simulate a 'Good' (3) review occurring at 'lastSimulatedReviewDate'
         //    computeNextSchedule uses: (Current State, Rating, Time of Review)
-        const simulationResult = computeNextSchedule(simulatedState, 3, lastSimulatedReviewDate);
+        const simulationResult = computeNextSchedule(simulatedState, 3, lastSimulatedReviewDate, params);
+        chain?.push({ date: lastSimulatedReviewDate, s: simulationResult.s });
         
         // B. Get the strictly calculated interval from FSRS
         const nextIntervalDays = simulationResult.interval;
@@ -88,18 +145,27 @@ export const generateReviewSchedule = (
         if (nextReviewTimestamp > rangeEnd) break;
         
         // E. Register this as a Projected Event
-        addToSchedule(nextReviewTimestamp, {
-            nodeId: node.id,
-            title: node.title,
-            date: nextReviewTimestamp,
-            type: 'projected',
-            predictedInterval: nextIntervalDays
-        });
+        //    Intra-day learning steps are part of the same day's session, not a new calendar entry.
+        if (nextIntervalDays >= 1) {
+            pending.push({
+                event: {
+                    nodeId: node.id,
+                    cardKey,
+                    title,
+                    date: nextReviewTimestamp,
+                    type: 'projected',
+                    predictedInterval: nextIntervalDays
+                },
+                kind: 'review',
+                isShown
+            });
+        }
         
         // F. EVOLVE STATE for the next iteration
         //    The node now has the properties resulting from the review at 'lastSimulatedReviewDate'.
         simulatedState = {
-            state: 'review',
+            state: simulationResult.state,
+            step: simulationResult.step,
             s: simulationResult.s,
             d: simulationResult.d,
             lastReview: lastSimulatedReviewDate, // The review happened "just now" in simulation time
@@ -113,6 +179,35 @@ export const generateReviewSchedule = (
     }
   }
 
+  // Bucket by learning day so late-night reviews count towards the right day
+  const todayKey = getLearningDayKey(now, settings);
+  const lastKey = getLearningDayKey(rangeEnd, settings);
+  const byDay: Record<string, PendingEvent[]> = {};
+  pending.forEach(entry => {
+    const dateKey = getLearningDayKey(entry.event.date, settings);
+    (byDay[dateKey < todayKey ? todayKey : dateKey] ??= []).push(entry);
+  });
+
+  // Walk the days in order; what a day cannot take is carried ahead of the next day's own events.
+  // Today starts from what has already been studied.
+  let carried: PendingEvent[] = [];
+  for (let dateKey = todayKey, used = getTodayUsage(nodes); dateKey <= lastKey; dateKey = addDaysToKey(dateKey, 1), used = {}) {
+    const admit = createDailyLimiter(nodes, used);
+    const candidates = [...carried, ...(byDay[dateKey] ?? []).sort((a, b) => a.event.date - b.event.date)];
+    carried = [];
+    candidates.forEach(entry => {
+      if (!admit(entry.event.nodeId, entry.kind)) {
+        carried.push(entry);
+        return;
+      }
+      if (!entry.isShown) return;
+      // A carried event is dated to the day it lands on; overdue ones keep their due date
+      const isCarried = dateKey > todayKey && getLearningDayKey(entry.event.date, settings) < dateKey;
+      const event = isCarried ? { ...entry.event, date: getLearningDayStart(dateKey, settings) } : entry.event;
+      (schedule[dateKey] ??= []).push(event);
+    });
+  }
+
   // Sort events: Confirmed first, then alphabetical
   Object.keys(schedule).forEach(date => {
     schedule[date].sort((a, b) => {
@@ -123,3 +218,52 @@ export const generateReviewSchedule = (
 
   return schedule;
 };
+
+/**
+ * Cards due on each learning day, by their stored due date alone: no projection and no
+ * daily limits, which would flatten every day at the cap. Cheap enough to take once per review.
+ */
+export const getDueCounts = (nodes: NodeMap, excludeKey?: string): Record<string, number> => {
+  const settings = getSettings(nodes);
+  const counts: Record<string, number> = {};
+  getReviewItems(nodes).forEach(item => {
+    // The card being scheduled should not compete with its own old due date
+    if (item.key === excludeKey) return;
+    const dateKey = getLearningDayKey(item.fsrs.due, settings);
+    counts[dateKey] = (counts[dateKey] || 0) + 1;
+  });
+  return counts;
+};
+
+/**
+ * Chooses the final interval for a review that just graduated or passed.
+ * With load balancing on, it picks the day in the fuzz window with the fewest cards due
+ * (see getDueCounts); ties go to the fuzzed day.
+ */
+export const balanceInterval = (
+  dueCounts: Record<string, number>,
+  interval: number,
+  seed: string,
+  params: FSRSParameters,
+  reviewTime: number,
+  settings: ProfileSettings
+): number => {
+  const fuzzed = fuzzInterval(interval, seed, params);
+  if (!params.enableLoadBalance) return fuzzed;
+
+  const [min, max] = getFuzzRange(interval, params);
+  if (min === max) return fuzzed;
+
+  const loadOn = (days: number) => dueCounts[getLearningDayKey(reviewTime + days * 24 * 60 * 60 * 1000, settings)] || 0;
+
+  let best = fuzzed;
+  let bestLoad = loadOn(fuzzed);
+  for (let days = min; days <= max; days++) {
+    const load = loadOn(days);
+    if (load < bestLoad || (load === bestLoad && Math.abs(days - fuzzed) < Math.abs(best - fuzzed))) {
+      best = days;
+      bestLoad = load;
+    }
+  }
+  return best;
+};
@@ -0,0 +1,149 @@
+import { Node, NodeMap, ProfileSettings, ReviewItem } from '../types';
+import { getNodeItems } from './cards';
+import { getTrashedIds } from './trash';
+import { getPathTitles } from './treeUtils';
+import { getLearningDayEnd, getLearningDayKey } from './learningDay';
+
+/**
+ * SEARCH
+ * Fuzzy matching over every live node for the quick-jump palette. Each
+ * whitespace-separated term must hit the title or the card content; titles rank
+ * above content, contiguous hits above scattered ones.
+ */
+
+export type SearchStateFilter = 'due' | 'new' | 'suspended';
+
+// Inclusive bounds; an omitted side is open
+export interface SearchRange {
+  min?: number;
+  max?: number;
+}
+
+export interface SearchFilters {
+  states: SearchStateFilter[]; // Any of these; empty means every state
+  difficulty: SearchRange; // FSRS difficulty, 1-10
+  stability: SearchRange; // in days
+}
+
+export interface SearchResult {
+  node: Node;
+  path: string[]; // Titles from the subject down to the parent
+  snippet?: string; // Matching content excerpt when the hit was not in the title
+  score: number;
+}
+
+export const EMPTY_FILTERS: SearchFilters = { states: [], difficulty: {}, stability: {} };
+
+const MAX_RESULTS = 50;
+const SNIPPET_RADIUS = 24;
+
+// Content hits count for less than the same hit in the title
+const CONTENT_WEIGHT = 0.6;
+
+/** Score of term inside text (both lower-cased), or null when it does not match. */
+export const fuzzyScore = (text: string, term: string): number | null => {
+  if (!term) return 0;
+  const index = text.indexOf(term);
+  if (index !== -1) return 100 + (index === 0 ? 50 : 0) - Math.min(index, 40);
+
+  // Subsequence match: every character in order, runs rewarded
+  let score = 0;
+  let cursor = 0;
+  let run = 0;
+  for (const char of term) {
+    const found = text.indexOf(char, cursor);
+    if (found === -1) return null;
+    run = found === cursor ? run + 1 : 0;
+    score += 1 + run * 3 - Math.min(found - cursor, 5) * 0.5;
+    cursor = found + 1;
+  }
+  return Math.max(1, Math.min(score, 90));
+};
+
+const isBounded = (range: SearchRange): boolean => range.min !== undefined || range.max !== undefined;
+
+export const hasActiveFilters = (filters: SearchFilters): boolean =>
+  filters.states.length > 0 || isBounded(filters.difficulty) || isBounded(filters.stability);
+
+const inRange = (value: number, range: SearchRange): boolean =>
+  (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max);
+
+const matchesFilters = (node: Node, item: ReviewItem, filters: SearchFilters, dueBefore: number): boolean => {
+  const suspended = node.fsrs.state === 'suspended' || item.fsrs.state === 'suspended';
+  const isNew = !suspended && item.fsrs.state === 'new';
+  if (filters.states.length > 0) {
+    const states: Record<SearchStateFilter, boolean> = {
+      due: !suspended && !isNew && item.fsrs.due < dueBefore,
+      new: isNew,
+      suspended,
+    };
+    if (!filters.states.some(state => states[state])) return false;
+  }
+  // New cards have no memory state yet, so any range excludes them
+  if ((isBounded(filters.difficulty) || isBounded(filters.stability)) && item.fsrs.s === 0) return false;
+  return inRange(item.fsrs.d, filters.difficulty) && inRange(item.fsrs.s, filters.stability);
+};
+
+const toSnippet = (text: string, term: string): string => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const index = term ? flat.toLowerCase().indexOf(term) : -1;
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(flat.length, Math.max(index, 0) + term.length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+};
+
+/**
+ * Live nodes matching query and filters, best first. Root is never a result; subjects
+ * only match without filters, since they are containers rather than cards.
+ */
+export const searchNodes = (
+  nodes: NodeMap,
+  query: string,
+  filters: SearchFilters,
+  settings: ProfileSettings,
+  now: number
+): SearchResult[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const filtering = hasActiveFilters(filters);
+  if (terms.length === 0 && !filtering) return [];
+
+  const trashed = getTrashedIds(nodes);
+  const dueBefore = getLearningDayEnd(getLearningDayKey(now, settings), settings);
+  const results: SearchResult[] = [];
+
+  Object.values(nodes).forEach(node => {
+    if (!node.parentId || trashed.has(node.id)) return;
+    if (filtering) {
+      if (node.parentId === 'root') return;
+      if (!getNodeItems(node).some(item => matchesFilters(node, item, filters, dueBefore))) return;
+    }
+
+    const title = node.title.toLowerCase();
+    const contents = [node.content?.front, node.content?.back, node.content?.notes].filter((text): text is string => !!text);
+    let score = 0;
+    let snippet: string | undefined;
+
+    for (const term of terms) {
+      const titleScore = fuzzyScore(title, term);
+      let best = titleScore ?? -1;
+      let bestContent: string | undefined;
+      contents.forEach(text => {
+        const contentScore = fuzzyScore(text.toLowerCase(), term);
+        if (contentScore !== null && contentScore * CONTENT_WEIGHT > best) {
+          best = contentScore * CONTENT_WEIGHT;
+          bestContent = text;
+        }
+      });
+      if (best < 0) return;
+      score += best;
+      if (bestContent !== undefined && snippet === undefined) snippet = toSnippet(bestContent, term);
+    }
+
+    results.push({ node, path: getPathTitles(nodes, node.parentId), snippet, score });
+  });
+
+  // Ties (e.g. filter-only searches) fall back to tree depth, then title
+  return results
+    .sort((a, b) => b.score - a.score || a.path.length - b.path.length || a.node.title.localeCompare(b.node.title))
+    .slice(0, MAX_RESULTS);
+};
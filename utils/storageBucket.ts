@@ -0,0 +1,47 @@
+import { supabase } from '../supabaseClient';
+
+/**
+ * Remote blob storage used by cloud sync for attachments.
+ * Objects are addressed by content hash, so uploads are idempotent.
+ */
+export interface StorageBucket {
+  exists: (hash: string) => Promise<boolean>;
+  upload: (hash: string, blob: Blob) => Promise<void>;
+  download: (hash: string) => Promise<Blob | null>;
+}
+
+const BUCKET_NAME = 'attachments';
+
+/** Supabase Storage, one folder per user. */
+export const createSupabaseBucket = (userId: string): StorageBucket => {
+  const bucket = () => supabase.storage.from(BUCKET_NAME);
+
+  return {
+    exists: async (hash) => {
+      const { data, error } = await bucket().list(userId, { search: hash, limit: 1 });
+      if (error) throw error;
+      return (data ?? []).some(object => object.name === hash);
+    },
+    upload: async (hash, blob) => {
+      const { error } = await bucket().upload(`${userId}/${hash}`, blob, { contentType: blob.type, upsert: true });
+      if (error) throw error;
+    },
+    download: async (hash) => {
+      const { data, error } = await bucket().download(`${userId}/${hash}`);
+      if (error) return null;
+      return data;
+    },
+  };
+};
+
+/** In-memory stand-in with the same contract, for tests and offline development. */
+export const createLocalBucket = (): StorageBucket => {
+  const objects = new Map<string, Blob>();
+  return {
+    exists: async (hash) => objects.has(hash),
+    upload: async (hash, blob) => {
+      objects.set(hash, blob);
+    },
+    download: async (hash) => objects.get(hash) ?? null,
+  };
+};
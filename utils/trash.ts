@@ -0,0 +1,52 @@
+import { Node, NodeMap } from '../types';
+
+/**
+ * TRASH
+ * Deleting a node detaches it from its parent's children and stamps `trashedAt` on it.
+ * The subtree stays in the NodeMap with its logs intact, so it syncs, backs up and
+ * restores like any other data, but nothing reachable from root points at it.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** True when the node or one of its ancestors is in the trash. */
+export const isTrashed = (nodes: NodeMap, nodeId: string): boolean => {
+  let curr: Node | undefined = nodes[nodeId];
+  while (curr) {
+    if (curr.trashedAt) return true;
+    curr = curr.parentId ? nodes[curr.parentId] : undefined;
+  }
+  return false;
+};
+
+/** Every node id inside a trashed subtree. */
+export const getTrashedIds = (nodes: NodeMap): Set<string> => {
+  const ids = new Set<string>();
+  const stack = Object.values(nodes).filter(node => node.trashedAt).map(node => node.id);
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (ids.has(id) || !nodes[id]) continue;
+    ids.add(id);
+    stack.push(...nodes[id].children);
+  }
+  return ids;
+};
+
+/** The top nodes of trashed subtrees, most recently deleted first. */
+export const getTrashRoots = (nodes: NodeMap): Node[] => {
+  return Object.values(nodes)
+    .filter(node => node.trashedAt)
+    .sort((a, b) => b.trashedAt! - a.trashedAt!);
+};
+
+/** Trash roots older than the retention period. A period of 0 never expires anything. */
+export const getExpiredTrash = (nodes: NodeMap, retentionDays: number, now: number): Node[] => {
+  if (retentionDays <= 0) return [];
+  return getTrashRoots(nodes).filter(node => now - node.trashedAt! >= retentionDays * DAY_MS);
+};
+
+/** Days until a trashed node is purged, or null when the trash keeps it forever. */
+export const getDaysUntilPurge = (node: Node, retentionDays: number, now: number): number | null => {
+  if (retentionDays <= 0 || !node.trashedAt) return null;
+  return Math.max(0, Math.ceil((node.trashedAt + retentionDays * DAY_MS - now) / DAY_MS));
+};
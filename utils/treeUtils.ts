@@ -1,5 +1,7 @@
 
-import { NodeMap } from '../types';
+import { DropPosition, FSRSParameters, Node, NodeMap, ProfileSettings, SavedFilter } from '../types';
+import { DEFAULT_PARAMETERS } from '../fsrs';
+import { getDeviceTimeZone } from './learningDay';
 
 export const INITIAL_DATA: NodeMap = {
   'root': {
@@ -39,3 +41,142 @@ export const INITIAL_DATA: NodeMap = {
     logs: [] 
   }
 };
+
+/**
+ * Resolves the active FSRS parameter set stored on the root node,
+ * falling back to the defaults for anything not customised.
+ */
+export const getParameters = (nodes: NodeMap): FSRSParameters => {
+  return { ...DEFAULT_PARAMETERS, ...nodes['root']?.params };
+};
+
+/**
+ * Resolves the profile settings stored on the root node.
+ * Without an explicit choice the device time zone and a 3 AM rollover apply,
+ * the trash keeps deleted nodes for 30 days, leeches are tagged after 4 lapses at difficulty 9+,
+ * and a day brings at most 20 new cards and 200 reviews.
+ */
+export const getSettings = (nodes: NodeMap): ProfileSettings => {
+  return {
+    dayStartHour: 3,
+    timeZone: getDeviceTimeZone(),
+    trashRetentionDays: 30,
+    leechLapses: 4,
+    leechDifficulty: 9,
+    leechAction: 'tag',
+    burySiblings: false,
+    buryCardSiblings: false,
+    newPerDay: null,
+    reviewsPerDay: null,
+    ...nodes['root']?.settings
+  };
+};
+
+/** The saved filter expressions stored on the root node. */
+export const getSavedFilters = (nodes: NodeMap): SavedFilter[] => nodes['root']?.filters ?? [];
+
+/** The question side of a card; title-only nodes ask their title. */
+export const getCardFront = (node: Node): string => node.content?.front || node.title;
+
+/** True when ancestorId is nodeId itself or one of its ancestors. */
+export const isAncestorOrSelf = (nodes: NodeMap, ancestorId: string, nodeId: string): boolean => {
+  let curr: Node | undefined = nodes[nodeId];
+  while (curr) {
+    if (curr.id === ancestorId) return true;
+    curr = curr.parentId ? nodes[curr.parentId] : undefined;
+  }
+  return false;
+};
+
+/**
+ * Whether sourceId may be dropped at position relative to targetId.
+ * Any branch of any subject is allowed, except the moved node's own subtree.
+ */
+export const canMoveNode = (nodes: NodeMap, sourceId: string, targetId: string, position: DropPosition): boolean => {
+  const source = nodes[sourceId];
+  const target = nodes[targetId];
+  if (!source?.parentId || !target || sourceId === targetId) return false;
+  const newParentId = position === 'inside' ? targetId : target.parentId;
+  if (!newParentId || !nodes[newParentId]) return false;
+  return !isAncestorOrSelf(nodes, sourceId, newParentId);
+};
+
+export interface OutlineEntry {
+  id: string;
+  title: string;
+  depth: number;
+}
+
+/** Every live node in tree order with its depth, for "move to..." pickers. Root is listed as the top level. */
+export const getOutline = (nodes: NodeMap): OutlineEntry[] => {
+  const entries: OutlineEntry[] = [];
+  const visit = (id: string, depth: number) => {
+    const node = nodes[id];
+    if (!node) return;
+    entries.push({ id, title: id === 'root' ? '（顶层科目）' : node.title, depth });
+    node.children.forEach(childId => visit(childId, depth + 1));
+  };
+  visit('root', 0);
+  return entries;
+};
+
+/** Drops ids whose ancestor is also in the list, so bulk moves and deletes act on whole subtrees once. */
+export const getTopmostIds = (nodes: NodeMap, ids: string[]): string[] => {
+  const selected = new Set(ids);
+  return ids.filter(id => {
+    let curr = nodes[id]?.parentId ? nodes[nodes[id].parentId!] : undefined;
+    while (curr) {
+      if (selected.has(curr.id)) return false;
+      curr = curr.parentId ? nodes[curr.parentId] : undefined;
+    }
+    return !!nodes[id];
+  });
+};
+
+/** Tags are stored without the leading '#' and compared case-sensitively. */
+export const normalizeTag = (tag: string): string => tag.trim().replace(/^#+/, '').replace(/\s+/g, '-');
+
+/** A node's own tags plus every ancestor's: tagging a branch tags everything in it. */
+export const getInheritedTags = (nodes: NodeMap, nodeId: string): string[] => {
+  const tags = new Set<string>();
+  let curr: Node | undefined = nodes[nodeId];
+  while (curr) {
+    curr.tags?.forEach(tag => tags.add(tag));
+    curr = curr.parentId ? nodes[curr.parentId] : undefined;
+  }
+  return [...tags];
+};
+
+/** All ids of the subtree under nodeId (inclusive). */
+export const getSubtreeIds = (nodes: NodeMap, nodeId: string): string[] => {
+  const ids: string[] = [];
+  const stack = [nodeId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (!nodes[id]) continue;
+    ids.push(id);
+    stack.push(...nodes[id].children);
+  }
+  return ids;
+};
+
+/** Titles from the subject down to parentId (inclusive), for breadcrumbs. Root is left out. */
+export const getPathTitles = (nodes: NodeMap, parentId: string | null): string[] => {
+  const titles: string[] = [];
+  let curr: Node | undefined = parentId ? nodes[parentId] : undefined;
+  while (curr && curr.id !== 'root') {
+    titles.unshift(curr.title);
+    curr = curr.parentId ? nodes[curr.parentId] : undefined;
+  }
+  return titles;
+};
+
+/** The subject (child of root) a node belongs to; null for root and detached nodes. */
+export const getSubjectId = (nodes: NodeMap, nodeId: string): string | null => {
+  let curr: Node | undefined = nodes[nodeId];
+  while (curr?.parentId) {
+    if (curr.parentId === 'root') return curr.id;
+    curr = nodes[curr.parentId];
+  }
+  return null;
+};
@@ -0,0 +1,15 @@
+import { optimizeWeights, OptimizerRequest, OptimizerResponse } from '../utils/optimizer';
+
+// Runs the FSRS optimizer off the main thread so the UI stays responsive.
+const respond = (message: OptimizerResponse) => self.postMessage(message);
+
+self.addEventListener('message', (e: MessageEvent<OptimizerRequest>) => {
+  try {
+    const result = optimizeWeights(e.data.sequences, e.data.params, (progress) => {
+      respond({ type: 'progress', progress });
+    });
+    respond({ type: 'done', result });
+  } catch (err) {
+    respond({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+});